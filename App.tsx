@@ -1,25 +1,75 @@
-import React, { useState, useEffect, useMemo } from 'react';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
 import { 
   Settings, LayoutDashboard, Share2, Bot, Database, 
   Activity, FileText, Palette, Globe, Sun, Moon,
-  Shuffle, Zap, TrendingUp, Search, Info
+  Shuffle, Zap, TrendingUp, Search, Info, Route, X, Square, Coins
 } from 'lucide-react';
 import { 
   BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, AreaChart, Area 
 } from 'recharts';
 
 import { 
-  PainterStyle, MedFlowRow, FilterState, AgentSpec, PipelineRun, TabId 
+  PainterStyle, MedFlowRow, FilterState, AgentSpec, PipelineRun, TabId, ImportResult,
+  TimeBucket, TimeSeriesSplit, ForecastModel, AnomalyOptions, SearchIntent, ProviderSettings, AIResult,
+  UsageRecord, UsageSettings
 } from './types';
 import { DEFAULT_CSV, PAINTER_STYLES, DEFAULT_AGENTS } from './constants';
-import { parseMedFlowCSV, summarizeData } from './utils/csvParser';
-import { generateContent, generatePrediction, generateInsight } from './services/geminiService';
+import { parseMedFlowCSV, summarizeData, topN } from './utils/csvParser';
+import { DATE_PRESETS, resolveDatePreset } from './utils/dateUtils';
+import { applyFilters } from './utils/filters';
+import { buildGraph, toggleNodeFilter } from './utils/networkGraph';
+import { buildGraphAnalytics, metricRadius, NodeMetricKey } from './utils/graphAnalytics';
+import { buildTimeSeries } from './utils/timeSeries';
+import { forecastTimeSeries, buildForecastBrief, FORECAST_MODEL_LABELS } from './utils/forecast';
+import { detectAnomalies } from './utils/anomalyDetection';
+import { buildUdiReport } from './utils/udi';
+import { buildLicenseReport } from './utils/license';
+import {
+  buildSearchVocabulary, parseQueryLocally, sanitizeIntent, vocabularyContext
+} from './utils/semanticSearch';
+import { DEFAULT_SAMPLE_SIZE, MAX_SAMPLE_SIZE, buildTemplateContext } from './utils/promptTemplate';
+import { validatePipeline, executePipeline, initialSteps, previewPrompt } from './utils/pipeline';
+import { loadStoredAgents, storeAgents } from './utils/agentSpecs';
+import { saveRun, loadRuns, deleteRun, datasetFingerprint } from './utils/runStore';
+import {
+  budgetStatus, clearUsageLedger, formatCost, formatUsage, getUsageLedger, getUsageSettings, loadUsageLedger,
+  setUsageSettings, subscribeUsage
+} from './utils/usage';
+import {
+  isRedactionEnabled, setRedactionEnabled, registerIdentifiers, redactRows, redactFilters, redactText, restoreText
+} from './utils/redaction';
+import { sanitizeJson } from './utils/promptSafety';
+import {
+  generateContent, generatePrediction, generateInsight, isProviderConfigured, translateSearchQuery,
+  getProviderSettings, setProviderSettings, agentRequest, insightRequest, predictionRequest
+} from './services/llmService';
 import NetworkGraph from './components/NetworkGraph';
+import GraphAnalyticsPanel from './components/GraphAnalyticsPanel';
+import DataManager from './components/DataManager';
+import AnomalyPanel from './components/AnomalyPanel';
+import UdiReportPanel from './components/UdiReportPanel';
+import LicensePanel from './components/LicensePanel';
+import TraceabilityView from './components/TraceabilityView';
+import AgentEditor from './components/AgentEditor';
+import RunHistory from './components/RunHistory';
+import ProviderSettingsPanel from './components/ProviderSettingsPanel';
+import UsageDashboard from './components/UsageDashboard';
+import PrivacyPanel from './components/PrivacyPanel';
+
+type RankDimension = 'Category' | 'SupplierID' | 'CustomerID' | 'LicenseNo';
+
+const RANK_DIMENSIONS: { id: RankDimension; label: string }[] = [
+  { id: 'Category', label: 'Categories' },
+  { id: 'SupplierID', label: 'Suppliers' },
+  { id: 'CustomerID', label: 'Customers' },
+  { id: 'LicenseNo', label: 'Licenses' },
+];
 
 function App() {
   // --- State ---
   const [csvText, setCsvText] = useState(DEFAULT_CSV);
   const [rawData, setRawData] = useState<MedFlowRow[]>([]);
+  const [lastImport, setLastImport] = useState<ImportResult | null>(null);
   const [activeTab, setActiveTab] = useState<TabId>('overview');
   
   // Appearance
@@ -29,15 +79,38 @@ function App() {
 
   // Filters
   const [filters, setFilters] = useState<FilterState>({
-    date_min: null, date_max: null, suppliers: [], customers: [], categories: [],
+    date_min: null, date_max: null, suppliers: [], customers: [], categories: [], licenses: [],
     top_n: 10, edge_threshold: 1, max_nodes: 100
   });
 
+  // Top-N ranking
+  const [rankDimension, setRankDimension] = useState<RankDimension>('Category');
+  const [networkSizeBy, setNetworkSizeBy] = useState<NodeMetricKey | null>(null);
+
+  // Volume Trend
+  const [trendBucket, setTrendBucket] = useState<TimeBucket>('day');
+  const [trendSplit, setTrendSplit] = useState<TimeSeriesSplit>('none');
+  const [forecastModel, setForecastModel] = useState<ForecastModel>('auto');
+
+  // Quality
+  const [spikeMethod, setSpikeMethod] = useState<AnomalyOptions['spikeMethod']>('zscore');
+
   // AI & WOW Features
+  const [providerSettings, setProviderSettingsState] = useState<ProviderSettings>(getProviderSettings);
+  const [agents, setAgents] = useState<AgentSpec[]>(() => loadStoredAgents() ?? DEFAULT_AGENTS);
   const [pipelineRuns, setPipelineRuns] = useState<PipelineRun[]>([]);
-  const [insightFlash, setInsightFlash] = useState<string | null>(null);
-  const [predictionPulse, setPredictionPulse] = useState<string | null>(null);
+  const [sampleSize, setSampleSize] = useState(DEFAULT_SAMPLE_SIZE);
+  const abortersRef = useRef<Record<string, { run: AbortController; steps: Record<string, AbortController> }>>({});
+  const [insightFlash, setInsightFlash] = useState<AIResult | null>(null);
+  const [predictionPulse, setPredictionPulse] = useState<AIResult | null>(null);
+  const [aiError, setAiError] = useState<string | null>(null);
+  const [usageRecords, setUsageRecords] = useState<UsageRecord[]>(getUsageLedger);
+  const [usageSettings, setUsageSettingsState] = useState<UsageSettings>(getUsageSettings);
+  const [redactionEnabled, setRedactionEnabledState] = useState(isRedactionEnabled);
   const [semanticQuery, setSemanticQuery] = useState('');
+  const [searchTerms, setSearchTerms] = useState<string[]>([]);
+  const [searchSource, setSearchSource] = useState<SearchIntent['source'] | null>(null);
+  const [isSearching, setIsSearching] = useState(false);
   const [isProcessingAI, setIsProcessingAI] = useState(false);
 
   // --- Computed ---
@@ -46,22 +119,85 @@ function App() {
     [currentStyleId]
   );
 
-  const filteredData = useMemo(() => {
-    if(!rawData.length) return [];
-    return rawData.filter(r => {
-        if(filters.suppliers.length && !filters.suppliers.includes(r.SupplierID)) return false;
-        if(filters.customers.length && !filters.customers.includes(r.CustomerID)) return false;
-        if(filters.categories.length && !filters.categories.includes(r.Category)) return false;
-        return true;
-    });
-  }, [rawData, filters]);
+  const filteredData = useMemo(() => applyFilters(rawData, filters, searchTerms), [rawData, filters, searchTerms]);
 
   const summary = useMemo(() => summarizeData(filteredData), [filteredData]);
 
+  const trendSeries = useMemo(
+    () => buildTimeSeries(filteredData, trendBucket, trendSplit),
+    [filteredData, trendBucket, trendSplit]
+  );
+
+  const anomalies = useMemo(() => detectAnomalies(filteredData, { spikeMethod }), [filteredData, spikeMethod]);
+  const udiReport = useMemo(() => buildUdiReport(filteredData), [filteredData]);
+  const licenseReport = useMemo(() => buildLicenseReport(filteredData), [filteredData]);
+  // Betweenness is the costly part, so it only runs while the Network tab is open
+  // Concentration ignores the supplier filter: with one supplier selected every category would look single-sourced
+  const networkAnalytics = useMemo(() => {
+    if (activeTab !== 'network') return null;
+    const market = filters.suppliers.length ? applyFilters(rawData, { ...filters, suppliers: [] }, searchTerms) : filteredData;
+    return buildGraphAnalytics(market, buildGraph(filteredData, filters.max_nodes, filters.edge_threshold));
+  }, [activeTab, rawData, filters, searchTerms, filteredData]);
+  const networkNodeSize = useMemo(
+    () => networkAnalytics && networkSizeBy ? metricRadius(networkAnalytics.nodes, networkSizeBy) : undefined,
+    [networkAnalytics, networkSizeBy]
+  );
+  const ranking = useMemo(() => topN(filteredData, rankDimension, filters.top_n), [filteredData, rankDimension, filters.top_n]);
+
+  // History plus forecast periods; the band is a [lower, upper] range area on the total
+  const trendChartData = useMemo(() => {
+    const [total] = forecastTimeSeries(trendSeries, forecastModel);
+    if (!total) return trendSeries.points;
+    const history: Record<string, unknown>[] = trendSeries.points.map(p => ({ ...p }));
+    const last = history[history.length - 1];
+    last.forecast = last.total;
+    last.forecast_band = [last.total, last.total];
+    return [
+      ...history,
+      ...total.periods.map((period, i) => ({
+        period,
+        forecast: Math.round(total.values[i] * 10) / 10,
+        forecast_band: [Math.round(total.lower[i] * 10) / 10, Math.round(total.upper[i] * 10) / 10],
+      })),
+    ];
+  }, [trendSeries, forecastModel]);
+
+  const pipelineIssues = useMemo(() => validatePipeline(agents), [agents]);
+
+  // What prompts are built from: CustomerID / SupplierID / SerNo replaced by session aliases unless redaction is off
+  const outboundData = useMemo(() => {
+    registerIdentifiers(rawData);
+    return redactRows(filteredData);
+  }, [rawData, filteredData, redactionEnabled]);
+  const outboundAnomalies = useMemo(
+    () => outboundData === filteredData ? anomalies : detectAnomalies(outboundData, { spikeMethod }),
+    [outboundData, filteredData, anomalies, spikeMethod]
+  );
+
+  const templateContext = useMemo(
+    () => buildTemplateContext(outboundData, redactFilters(filters), sampleSize, outboundAnomalies),
+    [outboundData, filters, sampleSize, outboundAnomalies, redactionEnabled]
+  );
+
+  const dataFingerprint = useMemo(() => datasetFingerprint(rawData), [rawData]);
+  const budget = useMemo(() => budgetStatus(usageRecords, usageSettings), [usageRecords, usageSettings]);
+
+  const searchVocabulary = useMemo(() => buildSearchVocabulary(rawData), [rawData]);
+
+  // Anchor for date presets: exports lag behind today, so presets count back from the latest delivery
+  const latestDeliveryDate = useMemo(() => {
+    let max = -Infinity;
+    rawData.forEach(r => { if(r.parsedDate && r.parsedDate.getTime() > max) max = r.parsedDate.getTime(); });
+    return max === -Infinity ? new Date() : new Date(max);
+  }, [rawData]);
+
   // --- Effects ---
   useEffect(() => {
     // Initial parse
-    setRawData(parseMedFlowCSV(DEFAULT_CSV));
+    setRawData(parseMedFlowCSV(DEFAULT_CSV).rows);
+    loadRuns().then(setPipelineRuns).catch(e => console.error(e));
+    loadUsageLedger().catch(e => console.error(e));
+    return subscribeUsage(setUsageRecords);
   }, []);
 
   useEffect(() => {
@@ -86,54 +222,127 @@ function App() {
     setCurrentStyleId(random.id);
   };
 
+  // The default provider translates the query when it is configured; the local keyword/fuzzy parser covers the rest
+  const runSemanticSearch = async () => {
+      const query = semanticQuery.trim();
+      if(!query) return;
+      setIsSearching(true);
+      let intent: SearchIntent;
+      try {
+          if(!isProviderConfigured()) throw new Error('No model provider configured');
+          intent = sanitizeIntent(restoreText((await translateSearchQuery(query, vocabularyContext(searchVocabulary))).text), searchVocabulary);
+      } catch(e) {
+          intent = parseQueryLocally(query, searchVocabulary);
+      }
+      setFilters({ ...filters, ...intent.filters });
+      setSearchTerms(intent.text);
+      setSearchSource(intent.source);
+      setIsSearching(false);
+  };
+
+  const filterChips: { label: string; onRemove: () => void }[] = [
+      ...filters.suppliers.map(v => ({ label: `Supplier: ${v}`, onRemove: () => setFilters({ ...filters, suppliers: filters.suppliers.filter(x => x !== v) }) })),
+      ...filters.customers.map(v => ({ label: `Customer: ${v}`, onRemove: () => setFilters({ ...filters, customers: filters.customers.filter(x => x !== v) }) })),
+      ...filters.categories.map(v => ({ label: `Category: ${v}`, onRemove: () => setFilters({ ...filters, categories: filters.categories.filter(x => x !== v) }) })),
+      ...filters.licenses.map(v => ({ label: `License: ${v}`, onRemove: () => setFilters({ ...filters, licenses: filters.licenses.filter(x => x !== v) }) })),
+      ...(filters.date_min || filters.date_max ? [{
+          label: `Date: ${filters.date_min ?? '…'} → ${filters.date_max ?? '…'}`,
+          onRemove: () => setFilters({ ...filters, date_min: null, date_max: null })
+      }] : []),
+      ...searchTerms.map(t => ({ label: `Text: ${t}`, onRemove: () => setSearchTerms(searchTerms.filter(x => x !== t)) })),
+  ];
+
+  // Forecast per category locally; the LLM only narrates the numbers
+  const forecastBrief = () => {
+      const series = buildTimeSeries(filteredData, trendBucket, 'Category');
+      return JSON.stringify(sanitizeJson(buildForecastBrief(series, forecastTimeSeries(series, forecastModel))));
+  };
+
+  const summaryPayload = () => JSON.stringify(sanitizeJson(summarizeData(outboundData)));
+
   const runPredictionPulse = async () => {
       if(!filteredData.length) return;
       setIsProcessingAI(true);
+      setAiError(null);
       try {
-          const res = await generatePrediction(JSON.stringify(summary.top_categories));
+          const res = await generatePrediction(forecastBrief());
           setPredictionPulse(res);
-      } catch(e) { console.error(e); }
+      } catch(e) { console.error(e); setAiError(e instanceof Error ? e.message : String(e)); }
       setIsProcessingAI(false);
   };
 
   const runInsightFlash = async () => {
       if(!filteredData.length) return;
       setIsProcessingAI(true);
+      setAiError(null);
       try {
-          const res = await generateInsight(JSON.stringify(summary));
+          const res = await generateInsight(summaryPayload());
           setInsightFlash(res);
-      } catch(e) { console.error(e); }
+      } catch(e) { console.error(e); setAiError(e instanceof Error ? e.message : String(e)); }
       setIsProcessingAI(false);
   };
 
-  const runPipeline = async () => {
-      if(!filteredData.length) return;
+  // A replay reuses a saved run's agents, filters and sample size against whatever data is loaded now
+  const runPipeline = async (replay?: PipelineRun) => {
+      const runAgents = replay?.agents ?? agents;
+      const runFilters = replay?.filters ?? filters;
+      const runSearchTerms = replay?.searchTerms ?? searchTerms;
+      const runSampleSize = replay?.sampleSize ?? sampleSize;
+      const runSpikeMethod = replay?.spikeMethod ?? spikeMethod;
+      const data = replay ? redactRows(applyFilters(rawData, runFilters, runSearchTerms)) : outboundData;
+      if(!data.length || (replay ? validatePipeline(runAgents) : pipelineIssues).length || budget?.exceeded) return;
+      const runAnomalies = replay ? detectAnomalies(data, { spikeMethod: runSpikeMethod }) : outboundAnomalies;
+      const context = replay ? buildTemplateContext(data, redactFilters(runFilters), runSampleSize, runAnomalies) : templateContext;
+
       setIsProcessingAI(true);
       const runId = Date.now().toString();
-      const newRun: PipelineRun = { id: runId, timestamp: Date.now(), agentOutputs: {}, status: 'running' };
-      setPipelineRuns(prev => [newRun, ...prev]);
+      let current: PipelineRun = {
+          id: runId, timestamp: Date.now(), agentOutputs: {}, steps: initialSteps(runAgents), status: 'running',
+          prompts: {}, agents: runAgents, filters: runFilters, searchTerms: runSearchTerms, sampleSize: runSampleSize, spikeMethod: runSpikeMethod,
+          datasetFingerprint: dataFingerprint, rowCount: data.length, replayOf: replay?.id,
+      };
+      setPipelineRuns(prev => [current, ...prev]);
+      saveRun(current).catch(e => console.error(e));
+      const aborters = {
+          run: new AbortController(),
+          steps: Object.fromEntries(runAgents.map(a => [a.id, new AbortController()])),
+      };
+      abortersRef.current[runId] = aborters;
+      const patchRun = (update: (r: PipelineRun) => PipelineRun) => {
+          current = update(current);
+          setPipelineRuns(prev => prev.map(r => r.id === runId ? current : r));
+      };
 
-      try {
-          const context = JSON.stringify(summary);
-          const outputs: Record<string, string> = {};
-          
-          for(const agent of DEFAULT_AGENTS) {
-              const prompt = agent.user_prompt_template.replace('{{data_summary}}', context).replace('{{data_sample}}', '');
-              const res = await generateContent(agent.model, prompt, agent.system_prompt, agent.temperature, agent.max_tokens);
-              outputs[agent.id] = res;
-              
-              setPipelineRuns(prev => prev.map(r => 
-                  r.id === runId ? { ...r, agentOutputs: { ...r.agentOutputs, [agent.id]: res } } : r
-              ));
-          }
-          
-          setPipelineRuns(prev => prev.map(r => r.id === runId ? { ...r, status: 'completed' } : r));
-      } catch(e) {
-          setPipelineRuns(prev => prev.map(r => r.id === runId ? { ...r, status: 'failed', error: String(e) } : r));
-      }
+      const result = await executePipeline(runAgents, context, runAnomalies, {
+          runAgent: (agent, prompt, onText, signal) => generateContent(
+              agentRequest(agent, prompt), agent.provider, onText, signal, { source: 'agent', agentId: agent.id, runId }
+          ),
+          // Stored as sent, aliases included
+          onPrompt: (agentId, prompt) => patchRun(r => ({ ...r, prompts: { ...r.prompts, [agentId]: redactText(prompt) } })),
+          onStep: (agentId, step) => patchRun(r => ({ ...r, steps: { ...r.steps, [agentId]: step } })),
+          onOutput: (agentId, output) => patchRun(r => ({ ...r, agentOutputs: { ...r.agentOutputs, [agentId]: output } })),
+      }, {
+          run: aborters.run.signal,
+          steps: Object.fromEntries(Object.entries(aborters.steps).map(([id, c]) => [id, c.signal])),
+      });
+      delete abortersRef.current[runId];
+      patchRun(r => ({ ...r, status: result.status, error: result.error }));
+      saveRun(current).catch(e => console.error(e));
       setIsProcessingAI(false);
   };
 
+  // Stopping a run aborts every in-flight agent; finished outputs and streamed partial text stay on the run
+  const stopRun = (runId: string) => {
+      const aborters = abortersRef.current[runId];
+      if(!aborters) return;
+      aborters.run.abort();
+      Object.values(aborters.steps).forEach(c => c.abort());
+  };
+
+  const stopStep = (runId: string, agentId: string) => abortersRef.current[runId]?.steps[agentId]?.abort();
+
+  const activeRunId = pipelineRuns.find(r => r.status === 'running' && abortersRef.current[r.id])?.id;
+
   // --- Renders ---
   return (
     <div className={`min-h-screen font-sans text-[var(--mf-text)] transition-colors duration-500`}
@@ -180,8 +389,30 @@ function App() {
 
             <div className="bg-[var(--mf-card)] border border-[var(--mf-border)] rounded-xl p-4 space-y-3">
                  <label className="text-xs font-bold uppercase opacity-50">Global Filters</label>
+                 <div className="space-y-2">
+                    <div className="flex items-center gap-2">
+                        <input type="date" value={filters.date_min ?? ''} max={filters.date_max ?? undefined}
+                            onChange={(e) => setFilters({ ...filters, date_min: e.target.value || null })}
+                            className="w-full text-xs p-2 rounded-lg bg-[rgba(0,0,0,0.2)] border border-[var(--mf-border)] text-[var(--mf-text)]"/>
+                        <span className="text-xs opacity-50">→</span>
+                        <input type="date" value={filters.date_max ?? ''} min={filters.date_min ?? undefined}
+                            onChange={(e) => setFilters({ ...filters, date_max: e.target.value || null })}
+                            className="w-full text-xs p-2 rounded-lg bg-[rgba(0,0,0,0.2)] border border-[var(--mf-border)] text-[var(--mf-text)]"/>
+                    </div>
+                    <div className="grid grid-cols-5 gap-1">
+                        {DATE_PRESETS.map(p => (
+                            <button key={p.id}
+                                onClick={() => setFilters({ ...filters, ...resolveDatePreset(p.id, latestDeliveryDate) })}
+                                title={`Relative to latest delivery (${latestDeliveryDate.toLocaleDateString()})`}
+                                className="text-[10px] font-bold py-1 rounded-md bg-[rgba(255,255,255,0.05)] hover:bg-[rgba(255,255,255,0.1)] transition">
+                                {p.label}
+                            </button>
+                        ))}
+                    </div>
+                 </div>
                  <select multiple 
                     className="w-full h-24 text-xs p-2 rounded-lg bg-[rgba(0,0,0,0.2)] border border-[var(--mf-border)]"
+                    value={filters.categories}
                     onChange={(e) => {
                         const opts = Array.from(e.target.selectedOptions, (option: HTMLOptionElement) => option.value);
                         setFilters({...filters, categories: opts});
@@ -191,7 +422,19 @@ function App() {
                         <option key={c} value={c}>{c}</option>
                     ))}
                  </select>
-                 <button onClick={() => setFilters({ ...filters, categories: [] })} className="text-xs w-full text-center opacity-50 hover:opacity-100">Reset Filters</button>
+                 <select multiple
+                    className="w-full h-24 text-xs p-2 rounded-lg bg-[rgba(0,0,0,0.2)] border border-[var(--mf-border)]"
+                    value={filters.licenses}
+                    onChange={(e) => {
+                        const opts = Array.from(e.target.selectedOptions, (option: HTMLOptionElement) => option.value);
+                        setFilters({...filters, licenses: opts});
+                    }}
+                 >
+                    {Array.from(new Set(rawData.map(r => r.LicenseNo).filter(Boolean))).map(l => (
+                        <option key={l} value={l}>{l}</option>
+                    ))}
+                 </select>
+                 <button onClick={() => setFilters({ ...filters, suppliers: [], customers: [], categories: [], licenses: [], date_min: null, date_max: null })} className="text-xs w-full text-center opacity-50 hover:opacity-100">Reset Filters</button>
             </div>
         </div>
 
@@ -217,9 +460,12 @@ function App() {
                 {[
                     { id: 'overview', icon: LayoutDashboard, label: 'Overview' },
                     { id: 'network', icon: Share2, label: 'Network' },
+                    { id: 'trace', icon: Route, label: 'Trace' },
                     { id: 'agents', icon: Bot, label: 'Agent Studio' },
                     { id: 'data', icon: Database, label: 'Data' },
                     { id: 'quality', icon: FileText, label: 'Quality' },
+                    { id: 'usage', icon: Coins, label: 'Usage' },
+                    { id: 'config', icon: Settings, label: 'Config' },
                 ].map(tab => (
                     <button key={tab.id}
                         onClick={() => setActiveTab(tab.id as TabId)}
@@ -232,31 +478,63 @@ function App() {
             </nav>
             <div className="flex items-center gap-4">
                  <div className="relative group">
-                    <Search className="absolute left-3 top-2.5 text-[var(--mf-text)] opacity-40" size={16}/>
+                    <Search className={`absolute left-3 top-2.5 text-[var(--mf-text)] opacity-40 ${isSearching ? 'animate-pulse' : ''}`} size={16}/>
                     <input 
                         type="text" 
                         placeholder="Semantic Search (AI)..."
                         value={semanticQuery}
                         onChange={(e) => setSemanticQuery(e.target.value)}
+                        onKeyDown={(e) => { if(e.key === 'Enter') runSemanticSearch(); }}
+                        disabled={isSearching}
                         className="pl-9 pr-4 py-2 rounded-xl bg-[var(--mf-card)] border border-[var(--mf-border)] text-sm w-64 focus:ring-2 focus:ring-[var(--mf-accent)] outline-none transition-all"
                     />
                  </div>
             </div>
         </header>
 
+        {/* Active filters as editable chips */}
+        {filterChips.length > 0 && (
+            <div className="flex flex-wrap items-center gap-2 -mt-4 mb-8">
+                {searchSource && (
+                    <span className="text-[10px] font-bold uppercase opacity-50 mr-1">{searchSource === 'ai' ? 'AI query' : 'Keyword query'}</span>
+                )}
+                {filterChips.map(chip => (
+                    <span key={chip.label} className="flex items-center gap-1 text-xs px-3 py-1 rounded-full bg-[var(--mf-card)] border border-[var(--mf-border)]">
+                        {chip.label}
+                        <button onClick={chip.onRemove} className="opacity-50 hover:opacity-100"><X size={12}/></button>
+                    </span>
+                ))}
+                <button onClick={() => {
+                        setFilters({ ...filters, suppliers: [], customers: [], categories: [], licenses: [], date_min: null, date_max: null });
+                        setSearchTerms([]);
+                        setSearchSource(null);
+                    }}
+                    className="text-xs opacity-50 hover:opacity-100">Clear all</button>
+            </div>
+        )}
+
         {/* WOW AI Feature Display */}
+        {aiError && (
+            <div className="mb-8 p-4 bg-red-900/20 text-red-200 rounded-xl text-sm flex justify-between items-center">
+                {aiError}
+                <button onClick={() => setAiError(null)} className="opacity-60 hover:opacity-100"><X size={14}/></button>
+            </div>
+        )}
+
         {(insightFlash || predictionPulse) && (
              <div className="mb-8 grid grid-cols-2 gap-4 animate-in fade-in slide-in-from-top-4">
                 {insightFlash && (
                     <div className="p-4 rounded-xl border border-[var(--mf-border)] bg-gradient-to-br from-[var(--mf-card)] to-yellow-900/10">
                         <div className="flex items-center gap-2 text-yellow-400 text-xs font-bold uppercase mb-2"><Zap size={12}/> Flash Insight</div>
-                        <p className="text-sm font-medium leading-relaxed">{insightFlash}</p>
+                        <p className="text-sm font-medium leading-relaxed">{restoreText(insightFlash.text)}</p>
+                        <div className="text-[10px] opacity-40 font-mono mt-2">{formatUsage(insightFlash.usage)}</div>
                     </div>
                 )}
                 {predictionPulse && (
                     <div className="p-4 rounded-xl border border-[var(--mf-border)] bg-gradient-to-br from-[var(--mf-card)] to-green-900/10">
                         <div className="flex items-center gap-2 text-green-400 text-xs font-bold uppercase mb-2"><TrendingUp size={12}/> Pulse Prediction</div>
-                        <p className="text-sm font-medium leading-relaxed">{predictionPulse}</p>
+                        <p className="text-sm font-medium leading-relaxed">{restoreText(predictionPulse.text)}</p>
+                        <div className="text-[10px] opacity-40 font-mono mt-2">{formatUsage(predictionPulse.usage)}</div>
                     </div>
                 )}
              </div>
@@ -287,12 +565,18 @@ function App() {
                     {/* Charts */}
                     <div className="grid grid-cols-2 gap-6">
                         <div className="bg-[var(--mf-card)] border border-[var(--mf-border)] p-6 rounded-2xl h-[400px]">
-                            <h3 className="text-lg font-bold mb-6">Top Categories</h3>
-                            <ResponsiveContainer width="100%" height="90%">
-                                <BarChart data={summary.top_categories} layout="vertical">
+                            <div className="flex justify-between items-center mb-6">
+                                <h3 className="text-lg font-bold">Top {RANK_DIMENSIONS.find(d => d.id === rankDimension)?.label}</h3>
+                                <select value={rankDimension} onChange={(e) => setRankDimension(e.target.value as RankDimension)}
+                                    className="text-xs p-1.5 rounded-lg bg-[rgba(0,0,0,0.2)] border border-[var(--mf-border)] text-[var(--mf-text)]">
+                                    {RANK_DIMENSIONS.map(d => <option key={d.id} value={d.id}>{d.label}</option>)}
+                                </select>
+                            </div>
+                            <ResponsiveContainer width="100%" height="85%">
+                                <BarChart data={ranking} layout="vertical">
                                     <CartesianGrid strokeDasharray="3 3" strokeOpacity={0.1} />
                                     <XAxis type="number" hide />
-                                    <YAxis dataKey="key" type="category" width={100} tick={{fill: 'var(--mf-text)', fontSize: 12}} />
+                                    <YAxis dataKey="key" type="category" width={rankDimension === 'LicenseNo' ? 170 : 100} tick={{fill: 'var(--mf-text)', fontSize: 12}} />
                                     <Tooltip 
                                         contentStyle={{backgroundColor: 'var(--mf-card)', borderColor: 'var(--mf-border)', color: 'var(--mf-text)'}}
                                         itemStyle={{color: 'var(--mf-accent)'}}
@@ -302,14 +586,46 @@ function App() {
                             </ResponsiveContainer>
                         </div>
                         <div className="bg-[var(--mf-card)] border border-[var(--mf-border)] p-6 rounded-2xl h-[400px]">
-                            <h3 className="text-lg font-bold mb-6">Volume Trend</h3>
-                             <ResponsiveContainer width="100%" height="90%">
-                                <AreaChart data={summary.top_suppliers /* Using dummy mapping for trend demo as real dates need full agg */}>
+                            <div className="flex justify-between items-center mb-6">
+                                <h3 className="text-lg font-bold">Volume Trend</h3>
+                                <div className="flex items-center gap-2">
+                                    <select value={forecastModel} onChange={(e) => setForecastModel(e.target.value as ForecastModel)}
+                                        className="text-xs p-1.5 rounded-lg bg-[rgba(0,0,0,0.2)] border border-[var(--mf-border)] text-[var(--mf-text)]">
+                                        {(Object.keys(FORECAST_MODEL_LABELS) as ForecastModel[]).map(m => (
+                                            <option key={m} value={m}>{FORECAST_MODEL_LABELS[m]}</option>
+                                        ))}
+                                    </select>
+                                    <select value={trendSplit} onChange={(e) => setTrendSplit(e.target.value as TimeSeriesSplit)}
+                                        className="text-xs p-1.5 rounded-lg bg-[rgba(0,0,0,0.2)] border border-[var(--mf-border)] text-[var(--mf-text)]">
+                                        <option value="none">All units</option>
+                                        <option value="Category">By category</option>
+                                        <option value="SupplierID">By supplier</option>
+                                    </select>
+                                    <div className="flex bg-[rgba(0,0,0,0.2)] rounded-lg p-0.5">
+                                        {(['day', 'week', 'month'] as TimeBucket[]).map(b => (
+                                            <button key={b} onClick={() => setTrendBucket(b)}
+                                                className={`text-xs font-bold px-2 py-1 rounded-md transition ${trendBucket === b ? 'bg-[var(--mf-accent)] text-black' : 'opacity-60 hover:opacity-100'}`}>
+                                                {b[0].toUpperCase()}
+                                            </button>
+                                        ))}
+                                    </div>
+                                </div>
+                            </div>
+                             <ResponsiveContainer width="100%" height="85%">
+                                <AreaChart data={trendChartData}>
                                     <CartesianGrid strokeDasharray="3 3" strokeOpacity={0.1} />
-                                    <XAxis dataKey="key" tick={{fill: 'var(--mf-text)', fontSize: 10}} />
+                                    <XAxis dataKey="period" tick={{fill: 'var(--mf-text)', fontSize: 10}} />
                                     <YAxis tick={{fill: 'var(--mf-text)'}}/>
                                     <Tooltip contentStyle={{backgroundColor: 'var(--mf-card)', borderColor: 'var(--mf-border)'}}/>
-                                    <Area type="monotone" dataKey="units" stroke={currentStyle.accent} fill={currentStyle.accent} fillOpacity={0.2} />
+                                    {trendSeries.split === 'none' ? (
+                                        <Area type="monotone" dataKey="total" name="Units" stroke={currentStyle.accent} fill={currentStyle.accent} fillOpacity={0.2} />
+                                    ) : trendSeries.series.map((key, i) => (
+                                        <Area key={key} type="monotone" dataKey={key} stackId="units"
+                                            stroke={currentStyle.palette[i % currentStyle.palette.length]}
+                                            fill={currentStyle.palette[i % currentStyle.palette.length]} fillOpacity={0.3} />
+                                    ))}
+                                    <Area type="monotone" dataKey="forecast_band" name="Forecast band" stroke="none" fill={currentStyle.accent} fillOpacity={0.12} />
+                                    <Area type="monotone" dataKey="forecast" name="Forecast" stroke={currentStyle.accent} strokeDasharray="4 4" fill="none" />
                                 </AreaChart>
                             </ResponsiveContainer>
                         </div>
@@ -321,74 +637,147 @@ function App() {
                 <div className="space-y-4">
                     <div className="flex justify-between items-center">
                         <h2 className="text-xl font-bold">Supply Chain Network</h2>
-                        <span className="text-xs opacity-50 border border-[var(--mf-border)] px-2 py-1 rounded">D3.js Force Directed</span>
+                        <div className="flex items-center gap-3">
+                            <label className="text-xs opacity-70 flex items-center gap-2">
+                                Max nodes
+                                <input type="number" min={10} max={20000} step={50} value={filters.max_nodes}
+                                    onChange={(e) => setFilters({ ...filters, max_nodes: Math.max(10, Number(e.target.value) || 10) })}
+                                    className="w-24 text-xs p-1.5 rounded-lg bg-[rgba(0,0,0,0.2)] border border-[var(--mf-border)] text-[var(--mf-text)]"/>
+                            </label>
+                            <label className="text-xs opacity-70 flex items-center gap-2">
+                                Min edge units
+                                <input type="number" min={1} step={1} value={filters.edge_threshold}
+                                    onChange={(e) => setFilters({ ...filters, edge_threshold: Math.max(1, Number(e.target.value) || 1) })}
+                                    className="w-20 text-xs p-1.5 rounded-lg bg-[rgba(0,0,0,0.2)] border border-[var(--mf-border)] text-[var(--mf-text)]"/>
+                            </label>
+                            <span className="text-xs opacity-50 border border-[var(--mf-border)] px-2 py-1 rounded">D3.js</span>
+                        </div>
                     </div>
-                    <NetworkGraph data={filteredData} style={currentStyle} maxNodes={filters.max_nodes} />
+                    <NetworkGraph data={filteredData} style={currentStyle} maxNodes={filters.max_nodes} edgeThreshold={filters.edge_threshold}
+                      onFilterNode={(node) => setFilters(toggleNodeFilter(filters, node))} nodeSize={networkNodeSize} />
+                    {networkAnalytics && (
+                        <div className="bg-[var(--mf-card)] border border-[var(--mf-border)] p-6 rounded-2xl">
+                            <GraphAnalyticsPanel
+                                analytics={networkAnalytics}
+                                sizeBy={networkSizeBy}
+                                onSizeBy={setNetworkSizeBy}
+                                onToggleNode={(node) => setFilters(toggleNodeFilter(filters, node))}
+                            />
+                        </div>
+                    )}
                 </div>
             )}
 
+            {activeTab === 'trace' && (
+                <TraceabilityView data={rawData} style={currentStyle} maxNodes={filters.max_nodes} />
+            )}
+
             {activeTab === 'agents' && (
                 <div className="space-y-6">
                     <div className="flex justify-between items-center bg-[var(--mf-card)] p-6 rounded-2xl border border-[var(--mf-border)]">
                         <div>
                             <h2 className="text-xl font-bold mb-1">Agent Studio</h2>
-                            <p className="text-sm opacity-60">Chain multiple AI agents to analyze current filtered data.</p>
+                            <p className="text-sm opacity-60">Chain multiple AI agents to analyze current filtered data. Edit the agents on the Config tab.</p>
+                        </div>
+                        <div className="flex items-center gap-4">
+                            <label className="text-xs opacity-60 flex items-center gap-2" title="Rows sent as {{data_sample}}">
+                                Sample rows
+                                <input type="number" min={0} max={MAX_SAMPLE_SIZE} value={sampleSize}
+                                    onChange={(e) => setSampleSize(Math.max(0, Math.min(MAX_SAMPLE_SIZE, parseInt(e.target.value) || 0)))}
+                                    className="w-16 text-xs p-2 rounded-lg bg-[rgba(0,0,0,0.2)] border border-[var(--mf-border)] text-[var(--mf-text)]"/>
+                            </label>
+                            <button onClick={() => runPipeline()} disabled={isProcessingAI || pipelineIssues.length > 0 || budget?.exceeded}
+                                className="px-6 py-3 bg-[var(--mf-accent)] text-black font-bold rounded-xl hover:opacity-90 disabled:opacity-50 transition flex items-center gap-2">
+                                {isProcessingAI ? <div className="w-4 h-4 border-2 border-black border-t-transparent rounded-full animate-spin"/> : <Bot size={18}/>}
+                                Run Pipeline
+                            </button>
+                            {activeRunId && (
+                                <button onClick={() => stopRun(activeRunId)}
+                                    className="px-6 py-3 bg-red-500 text-white font-bold rounded-xl hover:opacity-90 transition flex items-center gap-2">
+                                    <Square size={16}/> Stop
+                                </button>
+                            )}
                         </div>
-                        <button onClick={runPipeline} disabled={isProcessingAI}
-                            className="px-6 py-3 bg-[var(--mf-accent)] text-black font-bold rounded-xl hover:opacity-90 disabled:opacity-50 transition flex items-center gap-2">
-                            {isProcessingAI ? <div className="w-4 h-4 border-2 border-black border-t-transparent rounded-full animate-spin"/> : <Bot size={18}/>}
-                            Run Pipeline
-                        </button>
                     </div>
 
-                    <div className="grid grid-cols-1 gap-6">
-                        {pipelineRuns.map(run => (
-                            <div key={run.id} className="bg-[var(--mf-card)] border border-[var(--mf-border)] rounded-2xl overflow-hidden">
-                                <div className="p-4 border-b border-[var(--mf-border)] flex justify-between items-center bg-[rgba(0,0,0,0.1)]">
-                                    <div className="flex items-center gap-3">
-                                        <div className={`w-3 h-3 rounded-full ${run.status === 'completed' ? 'bg-green-500' : run.status === 'failed' ? 'bg-red-500' : 'bg-yellow-500 animate-pulse'}`}/>
-                                        <span className="font-mono text-xs opacity-70">Run ID: {run.id}</span>
-                                    </div>
-                                    <span className="text-xs opacity-50">{new Date(run.timestamp).toLocaleString()}</span>
-                                </div>
-                                <div className="p-6 space-y-6">
-                                    {run.error && <div className="p-4 bg-red-900/20 text-red-200 rounded-lg text-sm">{run.error}</div>}
-                                    {Object.entries(run.agentOutputs).map(([agentId, output]) => (
-                                        <div key={agentId} className="space-y-2">
-                                            <h4 className="text-sm font-bold text-[var(--mf-accent)] uppercase tracking-wider">{DEFAULT_AGENTS.find(a => a.id === agentId)?.name || agentId}</h4>
-                                            <div className="bg-[rgba(0,0,0,0.2)] p-4 rounded-xl text-sm leading-relaxed whitespace-pre-wrap font-mono border border-[var(--mf-border)]">
-                                                {output}
-                                            </div>
-                                        </div>
-                                    ))}
-                                </div>
-                            </div>
-                        ))}
-                    </div>
+                    {budget?.exceeded && (
+                        <div className="p-4 bg-red-900/20 text-red-200 rounded-xl text-sm">
+                            Budget cap of {formatCost(budget.cap)} per {usageSettings.budget_period} reached ({formatCost(budget.spent)} spent).
+                            Runs are blocked until the next {usageSettings.budget_period} or until the cap is raised on the Usage tab.
+                        </div>
+                    )}
+
+                    {pipelineIssues.length > 0 && (
+                        <div className="p-4 bg-red-900/20 text-red-200 rounded-xl text-sm space-y-1">
+                            <div className="font-bold">Fix these pipeline issues before running:</div>
+                            {pipelineIssues.map((issue, i) => (
+                                <div key={i} className="font-mono text-xs">{issue.agentId} · {issue.field} · {issue.message}</div>
+                            ))}
+                        </div>
+                    )}
+
+                    <RunHistory
+                        runs={pipelineRuns}
+                        currentFingerprint={dataFingerprint}
+                        isRunning={isProcessingAI}
+                        onReplay={(run) => runPipeline(run)}
+                        onStop={stopRun}
+                        onStopStep={stopStep}
+                        onDelete={(id) => {
+                            setPipelineRuns(prev => prev.filter(r => r.id !== id));
+                            deleteRun(id).catch(e => console.error(e));
+                        }}
+                    />
                 </div>
             )}
 
-            {activeTab === 'data' && (
-                <div className="bg-[var(--mf-card)] border border-[var(--mf-border)] rounded-2xl p-6">
-                    <h2 className="text-xl font-bold mb-4">Data Manager</h2>
-                    <textarea 
-                        value={csvText}
-                        onChange={(e) => setCsvText(e.target.value)}
-                        className="w-full h-64 bg-[rgba(0,0,0,0.2)] border border-[var(--mf-border)] rounded-xl p-4 font-mono text-xs focus:ring-2 focus:ring-[var(--mf-accent)] outline-none"
+            {activeTab === 'usage' && (
+                <UsageDashboard
+                    records={usageRecords}
+                    settings={usageSettings}
+                    style={currentStyle}
+                    onSettingsChange={(next) => { setUsageSettings(next); setUsageSettingsState(next); }}
+                    onClear={() => { clearUsageLedger().catch(e => console.error(e)); }}
+                />
+            )}
+
+            {activeTab === 'config' && (
+                <div className="space-y-6">
+                    <ProviderSettingsPanel
+                        settings={providerSettings}
+                        onChange={(next) => { setProviderSettings(next); setProviderSettingsState(next); }}
+                    />
+                    <PrivacyPanel
+                        enabled={redactionEnabled}
+                        onToggle={(next) => { setRedactionEnabled(next); setRedactionEnabledState(next); }}
+                        requests={[
+                            { id: 'insight', label: 'Insight Flash', build: () => insightRequest(summaryPayload()) },
+                            { id: 'prediction', label: 'Predictive Pulse', build: () => predictionRequest(forecastBrief()) },
+                            ...agents.map(a => ({ id: a.id, label: `Agent · ${a.name}`, build: () => agentRequest(a, previewPrompt(agents, a.id, templateContext)) })),
+                        ]}
+                    />
+                    <AgentEditor
+                        agents={agents}
+                        onChange={(next) => { setAgents(next); storeAgents(next); }}
+                        onReset={() => { setAgents(DEFAULT_AGENTS); storeAgents(null); }}
+                        context={templateContext}
+                        issues={pipelineIssues}
                     />
-                    <div className="flex justify-end mt-4">
-                        <button 
-                            onClick={() => {
-                                const parsed = parseMedFlowCSV(csvText);
-                                setRawData(parsed);
-                                alert(`Parsed ${parsed.length} rows successfully.`);
-                            }}
-                            className="px-6 py-2 bg-[var(--mf-accent)] text-black font-bold rounded-lg hover:opacity-90 transition">
-                            Parse CSV
-                        </button>
-                    </div>
                 </div>
             )}
+
+            {activeTab === 'data' && (
+                <DataManager
+                    csvText={csvText}
+                    onCsvTextChange={setCsvText}
+                    lastImport={lastImport}
+                    onImport={(result) => {
+                        setRawData(result.rows);
+                        setLastImport(result);
+                    }}
+                    exportRows={filteredData}
+                />
+            )}
             
             {activeTab === 'quality' && (
                 <div className="bg-[var(--mf-card)] border border-[var(--mf-border)] rounded-2xl p-6">
@@ -410,6 +799,24 @@ function App() {
                              <div className="text-xs opacity-50 uppercase text-yellow-400">Zero/Neg Quantities</div>
                          </div>
                     </div>
+                    <div className="mt-8">
+                        <AnomalyPanel anomalies={anomalies} spikeMethod={spikeMethod} onSpikeMethodChange={setSpikeMethod} />
+                    </div>
+                    <div className="mt-8">
+                        <UdiReportPanel report={udiReport} />
+                    </div>
+                    <div className="mt-8">
+                        <LicensePanel
+                            report={licenseReport}
+                            activeLicenses={filters.licenses}
+                            onToggleLicense={(license) => setFilters({
+                                ...filters,
+                                licenses: filters.licenses.includes(license)
+                                    ? filters.licenses.filter(l => l !== license)
+                                    : [...filters.licenses, license]
+                            })}
+                        />
+                    </div>
                     <div className="mt-8">
                         <h3 className="font-bold mb-4">Sample Data</h3>
                         <div className="overflow-x-auto">
@@ -0,0 +1,290 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Plus, Copy, Trash2, ArrowUp, ArrowDown, Upload, Download, RotateCcw, Settings } from 'lucide-react';
+import { AgentSpec, PipelineIssue, ProviderId, TemplateContext } from '../types';
+import { PROVIDERS, agentModel, getProviderSettings } from '../services/llmService';
+import { GEMINI_MODELS } from '../services/geminiService';
+import {
+  AgentSetFormat, createAgent, cloneAgent, parseAgentSet, serializeAgentSet,
+  formatFromFilename, isValidAgentId, renameAgentId
+} from '../utils/agentSpecs';
+import { TEMPLATE_VARIABLES, extractVariables } from '../utils/promptTemplate';
+import { previewPrompt, resolveDependencies, describeCondition } from '../utils/pipeline';
+import { downloadBlob } from '../utils/dataFormats';
+import { schemaProblem } from '../utils/jsonSchema';
+import { FINDINGS_SCHEMA } from '../constants';
+
+interface AgentEditorProps {
+  agents: AgentSpec[];
+  onChange: (agents: AgentSpec[]) => void;
+  onReset: () => void;
+  context: TemplateContext;
+  issues: PipelineIssue[];
+}
+
+// Long data summaries and samples would otherwise dominate the preview
+const PREVIEW_LIMIT = 6000;
+
+const modelSuggestions = (provider: ProviderId): string[] =>
+  provider === 'gemini' ? GEMINI_MODELS : [PROVIDERS[provider].defaultModel()];
+
+const inputClass = 'w-full text-xs p-2 rounded-lg bg-[rgba(0,0,0,0.2)] border border-[var(--mf-border)] text-[var(--mf-text)]';
+
+const AgentEditor: React.FC<AgentEditorProps> = ({ agents, onChange, onReset, context, issues }) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [selectedId, setSelectedId] = useState(agents[0]?.id ?? '');
+  const [idDraft, setIdDraft] = useState(selectedId);
+  const [error, setError] = useState<string | null>(null);
+  const [schemaDraft, setSchemaDraft] = useState('');
+  const [schemaError, setSchemaError] = useState<string | null>(null);
+
+  const index = Math.max(0, agents.findIndex(a => a.id === selectedId));
+  const agent = agents[index];
+  useEffect(() => setIdDraft(agent?.id ?? ''), [agent?.id]);
+  const schemaText = agent?.output_schema ? JSON.stringify(agent.output_schema, null, 2) : '';
+  useEffect(() => { setSchemaDraft(schemaText); setSchemaError(null); }, [agent?.id]);
+  // Imports and resets replace the schema underneath the draft; edits made here already match it
+  useEffect(() => {
+    setSchemaDraft(draft => {
+      try {
+        if (JSON.stringify(JSON.parse(draft || 'null')) === JSON.stringify(agent?.output_schema ?? null)) return draft;
+      } catch { /* draft is mid-edit */ return draft; }
+      return schemaText;
+    });
+  }, [schemaText]);
+
+  const update = (patch: Partial<AgentSpec>) => onChange(agents.map((a, i) => i === index ? { ...a, ...patch } : a));
+
+  const move = (delta: number) => {
+    const target = index + delta;
+    if (target < 0 || target >= agents.length) return;
+    const next = [...agents];
+    [next[index], next[target]] = [next[target], next[index]];
+    onChange(next);
+  };
+
+  const add = (spec: AgentSpec) => {
+    onChange([...agents.slice(0, index + 1), spec, ...agents.slice(index + 1)]);
+    setSelectedId(spec.id);
+  };
+
+  const remove = () => {
+    if (agents.length <= 1) return;
+    onChange(agents.filter((_, i) => i !== index));
+    setSelectedId(agents[index === 0 ? 1 : index - 1].id);
+  };
+
+  const commitId = () => {
+    const id = idDraft.trim();
+    if (id === agent.id) return;
+    if (!isValidAgentId(id)) { setError(`Agent id "${id}" may only contain letters, digits, _ and -`); setIdDraft(agent.id); return; }
+    if (agents.some(a => a.id === id)) { setError(`Agent id "${id}" is already used`); setIdDraft(agent.id); return; }
+    setError(null);
+    onChange(renameAgentId(agents, agent.id, id));
+    setSelectedId(id);
+  };
+
+  // Empty text removes the schema; anything else must parse and pass the shape check before it is applied
+  const editSchema = (text: string) => {
+    setSchemaDraft(text);
+    if (!text.trim()) { setSchemaError(null); update({ output_schema: undefined }); return; }
+    try {
+      const parsed = JSON.parse(text);
+      const problem = schemaProblem(parsed);
+      setSchemaError(problem);
+      if (!problem) update({ output_schema: parsed });
+    } catch (e) {
+      setSchemaError(e instanceof Error ? e.message : String(e));
+    }
+  };
+
+  const importFile = async (file: File) => {
+    try {
+      const imported = parseAgentSet(await file.text(), formatFromFilename(file.name));
+      onChange(imported);
+      setSelectedId(imported[0].id);
+      setError(null);
+    } catch (e) {
+      setError(`Import failed: ${e instanceof Error ? e.message : String(e)}`);
+    }
+  };
+
+  const exportSet = (format: AgentSetFormat) =>
+    downloadBlob(serializeAgentSet(agents, format), `medflow_agents.${format === 'yaml' ? 'yaml' : 'json'}`,
+      format === 'yaml' ? 'application/yaml' : 'application/json');
+
+  if (!agent) return null;
+
+  const preview = previewPrompt(agents, agent.id, context);
+  const agentIssues = issues.filter(i => i.agentId === agent.id);
+  const upstream = resolveDependencies(agents)[agent.id] ?? [];
+  const usedVariables = new Set(extractVariables(agent.user_prompt_template));
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center bg-[var(--mf-card)] p-6 rounded-2xl border border-[var(--mf-border)]">
+        <div>
+          <h2 className="text-xl font-bold mb-1 flex items-center gap-2"><Settings size={18} className="text-[var(--mf-accent)]"/> Agent Configuration</h2>
+          <p className="text-sm opacity-60">Edits apply to the next pipeline run and are kept in this browser.</p>
+        </div>
+        <div className="flex items-center gap-2">
+          <input ref={fileInputRef} type="file" accept=".json,.yaml,.yml" className="hidden"
+            onChange={(e) => { const f = e.target.files?.[0]; if (f) importFile(f); e.target.value = ''; }}/>
+          <button onClick={() => fileInputRef.current?.click()}
+            className="flex items-center gap-1 text-xs font-bold px-3 py-2 rounded-lg bg-[rgba(255,255,255,0.05)] hover:bg-[rgba(255,255,255,0.1)] transition">
+            <Upload size={12}/> Import
+          </button>
+          {(['json', 'yaml'] as AgentSetFormat[]).map(f => (
+            <button key={f} onClick={() => exportSet(f)}
+              className="flex items-center gap-1 text-xs font-bold px-3 py-2 rounded-lg bg-[rgba(255,255,255,0.05)] hover:bg-[rgba(255,255,255,0.1)] transition">
+              <Download size={12}/> {f.toUpperCase()}
+            </button>
+          ))}
+          <button onClick={() => { onReset(); setError(null); }} title="Restore the built-in agents"
+            className="flex items-center gap-1 text-xs font-bold px-3 py-2 rounded-lg opacity-60 hover:opacity-100 transition">
+            <RotateCcw size={12}/> Defaults
+          </button>
+        </div>
+      </div>
+
+      {error && <div className="p-4 bg-red-900/20 text-red-200 rounded-xl text-sm">{error}</div>}
+
+      <div className="grid grid-cols-[260px_1fr] gap-6">
+        <div className="bg-[var(--mf-card)] border border-[var(--mf-border)] rounded-2xl p-3 space-y-1 self-start">
+          {agents.map(a => (
+            <button key={a.id} onClick={() => setSelectedId(a.id)}
+              className={`w-full text-left px-3 py-2 rounded-lg text-sm transition ${
+                a.id === agent.id ? 'bg-[var(--mf-accent)] text-black font-bold' : 'hover:bg-[rgba(255,255,255,0.05)]'
+              }`}>
+              <div className="truncate">{a.name}</div>
+              <div className={`text-[10px] font-mono ${issues.some(i => i.agentId === a.id) ? 'text-red-400' : 'opacity-60'}`}>{a.id}</div>
+            </button>
+          ))}
+          <div className="flex justify-between pt-2 border-t border-[var(--mf-border)]">
+            <button onClick={() => add(createAgent(agents))} title="Add agent" className="p-2 opacity-60 hover:opacity-100"><Plus size={14}/></button>
+            <button onClick={() => add(cloneAgent(agent, agents))} title="Clone agent" className="p-2 opacity-60 hover:opacity-100"><Copy size={14}/></button>
+            <button onClick={() => move(-1)} title="Move up" className="p-2 opacity-60 hover:opacity-100"><ArrowUp size={14}/></button>
+            <button onClick={() => move(1)} title="Move down" className="p-2 opacity-60 hover:opacity-100"><ArrowDown size={14}/></button>
+            <button onClick={remove} disabled={agents.length <= 1} title="Delete agent" className="p-2 opacity-60 hover:opacity-100 hover:text-red-400 disabled:opacity-20"><Trash2 size={14}/></button>
+          </div>
+        </div>
+
+        <div className="space-y-4">
+          <div className="bg-[var(--mf-card)] border border-[var(--mf-border)] rounded-2xl p-6 space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <label className="space-y-1 text-xs opacity-80">
+                <span>Id (used in {'{{agents.<id>}}'})</span>
+                <input value={idDraft} onChange={(e) => setIdDraft(e.target.value)} onBlur={commitId}
+                  onKeyDown={(e) => { if (e.key === 'Enter') commitId(); }} className={`${inputClass} font-mono`}/>
+              </label>
+              <label className="space-y-1 text-xs opacity-80">
+                <span>Name</span>
+                <input value={agent.name} onChange={(e) => update({ name: e.target.value })} className={inputClass}/>
+              </label>
+              <label className="space-y-1 text-xs opacity-80 col-span-2">
+                <span>Goal</span>
+                <input value={agent.goal} onChange={(e) => update({ goal: e.target.value })} className={inputClass}/>
+              </label>
+              <div className="grid grid-cols-2 gap-4">
+                <label className="space-y-1 text-xs opacity-80">
+                  <span>Provider</span>
+                  <select value={agent.provider ?? ''}
+                    onChange={(e) => {
+                      const provider = (e.target.value || undefined) as ProviderId | undefined;
+                      update({ provider, model: PROVIDERS[provider ?? getProviderSettings().default_provider].defaultModel() });
+                    }}
+                    className={inputClass}>
+                    <option value="">Default ({PROVIDERS[getProviderSettings().default_provider].label})</option>
+                    {Object.values(PROVIDERS).map(p => <option key={p.id} value={p.id}>{p.label}</option>)}
+                  </select>
+                </label>
+                <label className="space-y-1 text-xs opacity-80">
+                  <span>Model</span>
+                  <input list="agent-models" value={agent.model}
+                    title={agentModel(agent) === undefined && agent.model
+                      ? `Not a ${PROVIDERS[getProviderSettings().default_provider].label} model; the default provider's own model is used`
+                      : undefined}
+                    onChange={(e) => update({ model: e.target.value })} className={`${inputClass} font-mono`}/>
+                  <datalist id="agent-models">
+                    {modelSuggestions(agent.provider ?? getProviderSettings().default_provider).map(m => <option key={m} value={m}/>)}
+                  </datalist>
+                </label>
+              </div>
+              <div className="grid grid-cols-2 gap-4">
+                <label className="space-y-1 text-xs opacity-80">
+                  <span>Temperature · {agent.temperature.toFixed(2)}</span>
+                  <input type="range" min={0} max={2} step={0.05} value={agent.temperature}
+                    onChange={(e) => update({ temperature: parseFloat(e.target.value) })} className="w-full accent-[var(--mf-accent)]"/>
+                </label>
+                <label className="space-y-1 text-xs opacity-80">
+                  <span>Max tokens</span>
+                  <input type="number" min={1} max={65536} value={agent.max_tokens}
+                    onChange={(e) => update({ max_tokens: Math.max(1, parseInt(e.target.value) || 1) })} className={inputClass}/>
+                </label>
+              </div>
+            </div>
+            <label className="block space-y-1 text-xs opacity-80">
+              <span>System prompt</span>
+              <textarea value={agent.system_prompt} onChange={(e) => update({ system_prompt: e.target.value })} rows={3}
+                className={`${inputClass} font-mono`}/>
+            </label>
+            <label className="block space-y-1 text-xs opacity-80">
+              <span>User prompt template</span>
+              <textarea value={agent.user_prompt_template} onChange={(e) => update({ user_prompt_template: e.target.value })} rows={10}
+                className={`${inputClass} font-mono`}/>
+            </label>
+            <div className="flex flex-wrap gap-2">
+              {[
+                ...Object.keys(TEMPLATE_VARIABLES),
+                ...agents.filter(a => a.id !== agent.id).flatMap(a => [
+                  `agents.${a.id}`,
+                  ...Object.keys(a.output_schema?.properties ?? {}).map(k => `agents.${a.id}.${k}`),
+                ]),
+              ].map(v => (
+                <button key={v} title={TEMPLATE_VARIABLES[v as keyof typeof TEMPLATE_VARIABLES] ?? `Output of ${v.slice(7)}`}
+                  onClick={() => update({ user_prompt_template: `${agent.user_prompt_template}\n{{${v}}}` })}
+                  className={`text-[10px] font-mono px-2 py-1 rounded-md border border-[var(--mf-border)] transition ${
+                    usedVariables.has(v) ? 'bg-[rgba(255,255,255,0.08)]' : 'opacity-60 hover:opacity-100'
+                  }`}>
+                  {`{{${v}}}`}
+                </button>
+              ))}
+            </div>
+            <div className="space-y-1 text-xs">
+              <div className="flex justify-between items-center opacity-80">
+                <span>Output schema (optional JSON Schema; the output is validated and rendered as cards)</span>
+                <div className="flex gap-3">
+                  <button onClick={() => editSchema(JSON.stringify(FINDINGS_SCHEMA, null, 2))} className="opacity-60 hover:opacity-100">Findings / risks / actions</button>
+                  <button onClick={() => editSchema('')} className="opacity-60 hover:opacity-100">Free text</button>
+                </div>
+              </div>
+              <textarea value={schemaDraft} onChange={(e) => editSchema(e.target.value)} rows={schemaDraft ? 8 : 2}
+                placeholder="Free-form text output" className={`${inputClass} font-mono`}/>
+              {schemaError && <div className="text-red-400">{schemaError}</div>}
+            </div>
+            <div className="text-xs opacity-60 space-y-1">
+              <div>Runs after: {upstream.length ? upstream.join(', ') : 'nothing (starts immediately)'}</div>
+              {agent.condition && <div>{describeCondition(agent.condition)}</div>}
+            </div>
+            {agentIssues.length > 0 && (
+              <div className="p-3 bg-red-900/20 text-red-200 rounded-lg text-xs font-mono space-y-1">
+                {agentIssues.map((issue, i) => <div key={i}>{issue.field} · {issue.message}</div>)}
+              </div>
+            )}
+          </div>
+
+          <div className="bg-[var(--mf-card)] border border-[var(--mf-border)] rounded-2xl p-6 space-y-2">
+            <div className="flex justify-between items-center">
+              <h3 className="font-bold">Live Preview</h3>
+              <span className="text-xs opacity-50">{preview.length.toLocaleString()} characters · current filtered data</span>
+            </div>
+            <pre className="bg-[rgba(0,0,0,0.2)] p-4 rounded-xl text-xs leading-relaxed whitespace-pre-wrap font-mono border border-[var(--mf-border)] max-h-96 overflow-y-auto">
+              {preview.length > PREVIEW_LIMIT ? `${preview.slice(0, PREVIEW_LIMIT)}\n… (${(preview.length - PREVIEW_LIMIT).toLocaleString()} more characters)` : preview}
+            </pre>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default AgentEditor;
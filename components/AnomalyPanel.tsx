@@ -0,0 +1,111 @@
+import React, { useState } from 'react';
+import { ChevronDown, ChevronRight, ShieldAlert } from 'lucide-react';
+import { Anomaly, AnomalyOptions, AnomalyRule } from '../types';
+import { ANOMALY_RULE_LABELS } from '../utils/anomalyDetection';
+
+interface AnomalyPanelProps {
+  anomalies: Anomaly[];
+  spikeMethod: AnomalyOptions['spikeMethod'];
+  onSpikeMethodChange: (method: AnomalyOptions['spikeMethod']) => void;
+}
+
+const SEVERITY_STYLES: Record<Anomaly['severity'], string> = {
+  high: 'bg-red-500/20 text-red-300',
+  medium: 'bg-yellow-500/20 text-yellow-300',
+  low: 'bg-blue-500/20 text-blue-300',
+};
+
+const ROW_PREVIEW = 50;
+
+const AnomalyPanel: React.FC<AnomalyPanelProps> = ({ anomalies, spikeMethod, onSpikeMethodChange }) => {
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const [ruleFilter, setRuleFilter] = useState<AnomalyRule | null>(null);
+
+  const counts = anomalies.reduce((acc, a) => {
+    acc[a.rule] = (acc[a.rule] || 0) + 1;
+    return acc;
+  }, {} as Partial<Record<AnomalyRule, number>>);
+  const visible = ruleFilter ? anomalies.filter(a => a.rule === ruleFilter) : anomalies;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex justify-between items-center">
+        <h3 className="font-bold flex items-center gap-2"><ShieldAlert size={16} className="text-[var(--mf-accent)]"/> Anomaly Engine</h3>
+        <select value={spikeMethod} onChange={(e) => onSpikeMethodChange(e.target.value as AnomalyOptions['spikeMethod'])}
+          className="text-xs p-2 rounded-lg bg-[rgba(0,0,0,0.2)] border border-[var(--mf-border)] text-[var(--mf-text)]">
+          <option value="zscore">Spikes: z-score</option>
+          <option value="iqr">Spikes: IQR</option>
+        </select>
+      </div>
+
+      <div className="grid grid-cols-6 gap-3">
+        {(Object.keys(ANOMALY_RULE_LABELS) as AnomalyRule[]).map(rule => (
+          <button key={rule} onClick={() => setRuleFilter(ruleFilter === rule ? null : rule)}
+            className={`p-3 text-left rounded-xl border transition ${
+              ruleFilter === rule ? 'border-[var(--mf-accent)] bg-[rgba(255,255,255,0.05)]' : 'border-[var(--mf-border)] bg-[rgba(255,255,255,0.02)]'
+            }`}>
+            <div className="text-xl font-black">{counts[rule] || 0}</div>
+            <div className="text-[10px] opacity-50 uppercase">{ANOMALY_RULE_LABELS[rule]}</div>
+          </button>
+        ))}
+      </div>
+
+      {!visible.length && <p className="text-sm opacity-50">No anomalies flagged.</p>}
+
+      <div className="space-y-2">
+        {visible.map(a => (
+          <div key={a.id} className="rounded-xl border border-[var(--mf-border)] bg-[rgba(255,255,255,0.02)]">
+            <button onClick={() => setExpanded(expanded === a.id ? null : a.id)}
+              className="w-full flex items-center gap-3 p-3 text-left">
+              {expanded === a.id ? <ChevronDown size={14}/> : <ChevronRight size={14}/>}
+              <span className={`text-[10px] font-bold uppercase px-2 py-0.5 rounded ${SEVERITY_STYLES[a.severity]}`}>{a.severity}</span>
+              <span className="text-sm font-medium flex-1">{a.title}</span>
+              <span className="text-xs opacity-50">{a.rows.length} row(s)</span>
+            </button>
+            {expanded === a.id && (
+              <div className="px-4 pb-4 space-y-3">
+                <p className="text-xs opacity-80">{a.explanation}</p>
+                <div className="flex flex-wrap gap-2">
+                  {Object.entries(a.metrics).map(([k, v]) => (
+                    <span key={k} className="text-[10px] font-mono px-2 py-0.5 rounded bg-[rgba(0,0,0,0.2)]">{k}: {v}</span>
+                  ))}
+                </div>
+                <div className="overflow-x-auto">
+                  <table className="w-full text-xs text-left">
+                    <thead className="uppercase opacity-50 border-b border-[var(--mf-border)]">
+                      <tr>
+                        <th className="py-2">Supplier</th>
+                        <th className="py-2">Customer</th>
+                        <th className="py-2">Date</th>
+                        <th className="py-2">Device</th>
+                        <th className="py-2">Lot</th>
+                        <th className="py-2">Serial</th>
+                        <th className="py-2 text-right">Qty</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {a.rows.slice(0, ROW_PREVIEW).map((r, i) => (
+                        <tr key={i} className="border-b border-[var(--mf-border)] border-opacity-10">
+                          <td className="py-2 font-mono">{r.SupplierID}</td>
+                          <td className="py-2 font-mono">{r.CustomerID}</td>
+                          <td className="py-2">{r.Deliverdate}</td>
+                          <td className="py-2">{r.DeviceNAME}</td>
+                          <td className="py-2 font-mono">{r.LotNO}</td>
+                          <td className="py-2 font-mono">{r.SerNo}</td>
+                          <td className="py-2 text-right font-mono">{r.Number}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                  {a.rows.length > ROW_PREVIEW && <p className="text-xs opacity-50 mt-2">Showing first {ROW_PREVIEW} of {a.rows.length} rows.</p>}
+                </div>
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default AnomalyPanel;
@@ -0,0 +1,275 @@
+import React, { useRef, useState } from 'react';
+import { Upload, AlertTriangle, X, Download } from 'lucide-react';
+import type { WorkBook } from 'xlsx';
+import { ColumnMapping, CsvEncoding, ImportFormat, ImportResult, MedFlowField, MedFlowRow } from '../types';
+import { MEDFLOW_FIELDS, REQUIRED_FIELDS, guessColumnMapping, missingRequiredFields } from '../utils/csvParser';
+import { sniffCsv, ingestCsv, CsvSniffResult, IngestProgress } from '../utils/csvIngest';
+import {
+  TabularData, readWorkbook, sheetToTable, jsonToTable, tableToResult,
+  rowsToCSV, rowsToNDJSON, rowsToXLSX, downloadBlob
+} from '../utils/dataFormats';
+
+interface DataManagerProps {
+  csvText: string;
+  onCsvTextChange: (text: string) => void;
+  lastImport: ImportResult | null;
+  onImport: (result: ImportResult) => void;
+  exportRows: MedFlowRow[];
+}
+
+type PendingImport = {
+  label: string;
+  headers: string[];
+  mapping: ColumnMapping;
+} & (
+  | { kind: 'csv'; source: File | string; sniff: CsvSniffResult }
+  | { kind: 'table'; format: ImportFormat; table: TabularData; workbook?: WorkBook; sheet?: string }
+);
+
+const REJECTION_PREVIEW = 200;
+
+const fileExtension = (name: string) => name.toLowerCase().split('.').pop() || '';
+
+const DataManager: React.FC<DataManagerProps> = ({ csvText, onCsvTextChange, lastImport, onImport, exportRows }) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const cancelRef = useRef<(() => void) | null>(null);
+  const [encoding, setEncoding] = useState<CsvEncoding>('auto');
+  const [isDragging, setIsDragging] = useState(false);
+  const [pending, setPending] = useState<PendingImport | null>(null);
+  const [progress, setProgress] = useState<IngestProgress | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const prepareTable = (label: string, format: ImportFormat, table: TabularData, extra?: { workbook: WorkBook; sheet: string }) => {
+    if (!table.headers.length) throw new Error('No header row found.');
+    setPending({ kind: 'table', label, format, table, headers: table.headers, mapping: guessColumnMapping(table.headers), ...extra });
+  };
+
+  const prepare = async (source: File | string, label: string) => {
+    setError(null);
+    try {
+      const ext = typeof source === 'string' ? '' : fileExtension(source.name);
+      if (ext === 'xlsx' || ext === 'xls') {
+        const workbook = await readWorkbook(source as File);
+        const sheet = workbook.SheetNames[0];
+        prepareTable(label, 'xlsx', sheetToTable(workbook, sheet), { workbook, sheet });
+      } else if (ext === 'json' || ext === 'ndjson' || ext === 'jsonl') {
+        const { table, format } = jsonToTable(await (source as File).text(), ext !== 'json');
+        prepareTable(label, format, table);
+      } else if (typeof source === 'string' && /^\s*[\[{]/.test(source)) {
+        const { table, format } = jsonToTable(source, false);
+        prepareTable(label, format, table);
+      } else {
+        const sniff = await sniffCsv(source, encoding);
+        if (!sniff.headers.length) throw new Error('No header row found.');
+        setPending({ kind: 'csv', source, label, sniff, headers: sniff.headers, mapping: sniff.mapping });
+      }
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    }
+  };
+
+  const selectSheet = (sheet: string) => {
+    if (pending?.kind !== 'table' || !pending.workbook) return;
+    const table = sheetToTable(pending.workbook, sheet);
+    setPending({ ...pending, sheet, table, headers: table.headers, mapping: guessColumnMapping(table.headers) });
+  };
+
+  const runImport = async () => {
+    if (!pending) return;
+    if (pending.kind === 'table') {
+      onImport(tableToResult(pending.table, pending.mapping, pending.format));
+      setPending(null);
+      return;
+    }
+    const { promise, cancel } = ingestCsv(pending.source, pending.sniff, pending.mapping, setProgress);
+    cancelRef.current = cancel;
+    setProgress({ processed: 0, total: 1, rows: 0 });
+    try {
+      const result = await promise;
+      onImport(result);
+      setPending(null);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    }
+    cancelRef.current = null;
+    setProgress(null);
+  };
+
+  const exportAs = (format: 'csv' | 'xlsx' | 'ndjson') => {
+    const stamp = new Date().toISOString().slice(0, 10);
+    if (format === 'csv') downloadBlob('\uFEFF' + rowsToCSV(exportRows), `medflow_${stamp}.csv`, 'text/csv;charset=utf-8');
+    else if (format === 'ndjson') downloadBlob(rowsToNDJSON(exportRows), `medflow_${stamp}.ndjson`, 'application/x-ndjson');
+    else downloadBlob(rowsToXLSX(exportRows), `medflow_${stamp}.xlsx`, 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet');
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDragging(false);
+    const file = e.dataTransfer.files[0];
+    if (file) prepare(file, file.name);
+  };
+
+  const setFieldColumn = (field: MedFlowField, value: string) => {
+    if (!pending) return;
+    setPending({ ...pending, mapping: { ...pending.mapping, [field]: value === '' ? null : Number(value) } });
+  };
+
+  const missing = pending ? missingRequiredFields(pending.mapping) : [];
+
+  return (
+    <div className="bg-[var(--mf-card)] border border-[var(--mf-border)] rounded-2xl p-6 space-y-6">
+      <div className="flex justify-between items-center">
+        <h2 className="text-xl font-bold">Data Manager</h2>
+        <div className="flex items-center gap-2">
+          <span className="text-xs opacity-50 mr-1">Export {exportRows.length.toLocaleString()} filtered rows</span>
+          {(['csv', 'xlsx', 'ndjson'] as const).map(f => (
+            <button key={f} onClick={() => exportAs(f)} disabled={!exportRows.length}
+              className="flex items-center gap-1 text-xs font-bold px-3 py-2 rounded-lg bg-[rgba(255,255,255,0.05)] hover:bg-[rgba(255,255,255,0.1)] disabled:opacity-50 transition">
+              <Download size={12}/> {f.toUpperCase()}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="flex justify-end">
+        <select value={encoding} onChange={(e) => setEncoding(e.target.value as CsvEncoding)}
+          className="text-xs p-2 rounded-lg bg-[rgba(0,0,0,0.2)] border border-[var(--mf-border)] text-[var(--mf-text)]">
+          <option value="auto">Encoding: Auto</option>
+          <option value="utf-8">UTF-8</option>
+          <option value="big5">Big5</option>
+        </select>
+      </div>
+
+      <div
+        onDragOver={(e) => { e.preventDefault(); setIsDragging(true); }}
+        onDragLeave={() => setIsDragging(false)}
+        onDrop={handleDrop}
+        onClick={() => fileInputRef.current?.click()}
+        className={`flex flex-col items-center justify-center gap-2 p-8 rounded-xl border-2 border-dashed cursor-pointer transition ${
+          isDragging ? 'border-[var(--mf-accent)] bg-[rgba(255,255,255,0.05)]' : 'border-[var(--mf-border)] hover:bg-[rgba(255,255,255,0.02)]'
+        }`}>
+        <Upload className="text-[var(--mf-accent)]"/>
+        <span className="text-sm font-medium">Drop a CSV, XLSX, JSON or NDJSON file here or click to browse</span>
+        <span className="text-xs opacity-50">CRLF/LF, quoted fields and BOM supported · parsed in the background</span>
+        <input ref={fileInputRef} type="file" accept=".csv,.txt,.xlsx,.xls,.json,.ndjson,.jsonl" className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) prepare(file, file.name);
+            e.target.value = '';
+          }}/>
+      </div>
+
+      <div>
+        <textarea
+          value={csvText}
+          onChange={(e) => onCsvTextChange(e.target.value)}
+          className="w-full h-64 bg-[rgba(0,0,0,0.2)] border border-[var(--mf-border)] rounded-xl p-4 font-mono text-xs focus:ring-2 focus:ring-[var(--mf-accent)] outline-none"
+        />
+        <div className="flex justify-end mt-4">
+          <button onClick={() => prepare(csvText, 'Pasted CSV')} disabled={!!progress}
+            className="px-6 py-2 bg-[var(--mf-accent)] text-black font-bold rounded-lg hover:opacity-90 disabled:opacity-50 transition">
+            Parse CSV
+          </button>
+        </div>
+      </div>
+
+      {error && <div className="p-4 bg-red-900/20 text-red-200 rounded-lg text-sm">{error}</div>}
+
+      {pending && (
+        <div className="p-4 rounded-xl border border-[var(--mf-border)] bg-[rgba(255,255,255,0.02)] space-y-4">
+          <div className="flex justify-between items-center">
+            <div>
+              <h3 className="font-bold">Column Mapping</h3>
+              <p className="text-xs opacity-50">
+                {pending.label} · {pending.headers.length} columns · {pending.kind === 'csv' ? `CSV · ${pending.sniff.encoding.toUpperCase()}` : pending.format.toUpperCase()}
+              </p>
+            </div>
+            <button onClick={() => setPending(null)} disabled={!!progress} className="opacity-50 hover:opacity-100"><X size={16}/></button>
+          </div>
+          {pending.kind === 'table' && pending.workbook && pending.workbook.SheetNames.length > 1 && (
+            <label className="text-xs flex items-center gap-2">
+              <span className="opacity-70">Sheet</span>
+              <select value={pending.sheet} onChange={(e) => selectSheet(e.target.value)}
+                className="p-2 rounded-lg bg-[rgba(0,0,0,0.2)] border border-[var(--mf-border)] text-[var(--mf-text)]">
+                {pending.workbook.SheetNames.map(n => <option key={n} value={n}>{n}</option>)}
+              </select>
+            </label>
+          )}
+          <div className="grid grid-cols-3 gap-3">
+            {MEDFLOW_FIELDS.map(field => (
+              <label key={field} className="text-xs space-y-1">
+                <span className="font-mono opacity-70">{field}{REQUIRED_FIELDS.includes(field) && <span className="text-red-400"> *</span>}</span>
+                <select value={pending.mapping[field] ?? ''} onChange={(e) => setFieldColumn(field, e.target.value)}
+                  className="w-full p-2 rounded-lg bg-[rgba(0,0,0,0.2)] border border-[var(--mf-border)] text-[var(--mf-text)]">
+                  <option value="">— not mapped —</option>
+                  {pending.headers.map((h, i) => <option key={i} value={i}>{h || `Column ${i + 1}`}</option>)}
+                </select>
+              </label>
+            ))}
+          </div>
+          {progress ? (
+            <div className="space-y-2">
+              <div className="h-2 rounded-full bg-[rgba(0,0,0,0.2)] overflow-hidden">
+                <div className="h-full bg-[var(--mf-accent)] transition-all" style={{ width: `${Math.round(progress.processed / Math.max(1, progress.total) * 100)}%` }}/>
+              </div>
+              <div className="flex justify-between text-xs opacity-70">
+                <span>{progress.rows.toLocaleString()} rows parsed</span>
+                <button onClick={() => cancelRef.current?.()} className="hover:opacity-100">Cancel</button>
+              </div>
+            </div>
+          ) : (
+            <div className="flex justify-between items-center">
+              <span className="text-xs text-red-400">{missing.length ? `Map required fields: ${missing.join(', ')}` : ''}</span>
+              <button onClick={runImport} disabled={missing.length > 0}
+                className="px-6 py-2 bg-[var(--mf-accent)] text-black font-bold rounded-lg hover:opacity-90 disabled:opacity-50 transition">
+                Import
+              </button>
+            </div>
+          )}
+        </div>
+      )}
+
+      {lastImport && (
+        <div className="space-y-4">
+          <div className="flex gap-6 text-sm">
+            <span><span className="font-black">{lastImport.rows.length.toLocaleString()}</span> <span className="opacity-50">rows imported</span></span>
+            <span className={lastImport.rejectedCount ? 'text-yellow-400' : 'opacity-50'}>
+              <span className="font-black">{lastImport.rejectedCount.toLocaleString()}</span> rejected
+            </span>
+            <span className="opacity-50">{lastImport.format === 'csv' ? `CSV · ${lastImport.encoding.toUpperCase()}` : lastImport.format.toUpperCase()}</span>
+          </div>
+          {lastImport.rejectedCount > 0 && (
+            <div>
+              <h3 className="font-bold mb-2 flex items-center gap-2"><AlertTriangle size={14} className="text-yellow-400"/> Rejection Log</h3>
+              <div className="overflow-x-auto max-h-80 overflow-y-auto">
+                <table className="w-full text-xs text-left">
+                  <thead className="uppercase opacity-50 border-b border-[var(--mf-border)]">
+                    <tr>
+                      <th className="py-2">Line</th>
+                      <th className="py-2">Reason</th>
+                      <th className="py-2">Raw</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {lastImport.rejections.slice(0, REJECTION_PREVIEW).map((r, i) => (
+                      <tr key={i} className="border-b border-[var(--mf-border)] border-opacity-10">
+                        <td className="py-2 font-mono">{r.line}</td>
+                        <td className="py-2">{r.reason}</td>
+                        <td className="py-2 font-mono opacity-60 truncate max-w-md">{r.raw}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+              {lastImport.rejectedCount > REJECTION_PREVIEW && (
+                <p className="text-xs opacity-50 mt-2">Showing first {REJECTION_PREVIEW} of {lastImport.rejectedCount.toLocaleString()} rejected rows.</p>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default DataManager;
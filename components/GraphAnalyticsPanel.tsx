@@ -0,0 +1,161 @@
+import React, { useState } from 'react';
+import { ArrowDown, ArrowUp, Activity } from 'lucide-react';
+import { GraphNode } from '../utils/networkGraph';
+import { GraphAnalytics, hhiLevel, NODE_METRIC_LABELS, NodeMetricKey } from '../utils/graphAnalytics';
+
+interface GraphAnalyticsPanelProps {
+  analytics: GraphAnalytics;
+  sizeBy: NodeMetricKey | null;
+  onSizeBy: (metric: NodeMetricKey | null) => void;
+  onToggleNode: (node: Pick<GraphNode, 'id' | 'group'>) => void;
+}
+
+type AnalyticsView = 'centrality' | 'concentration' | 'dependencies';
+
+interface Column<T> {
+  label: string;
+  value: (row: T) => number | string;
+  render?: (row: T) => React.ReactNode;
+  numeric?: boolean;
+}
+
+const ANALYTICS_PREVIEW = 100;
+
+const GROUP_LABELS: Record<GraphNode['group'], string> = { 1: 'Supplier', 2: 'Category', 3: 'Customer' };
+
+const HHI_TONES = { low: '', moderate: 'text-yellow-400', high: 'text-red-400' };
+
+const SortableTable = <T,>({ rows, columns, rowKey, onRowClick }: {
+  rows: T[];
+  columns: Column<T>[];
+  rowKey: (row: T) => string;
+  onRowClick: (row: T) => void;
+}) => {
+  const [sort, setSort] = useState<{ column: number; desc: boolean } | null>(null);
+
+  const sorted = sort === null ? rows : [...rows].sort((a, b) => {
+    const x = columns[sort.column].value(a);
+    const y = columns[sort.column].value(b);
+    const order = typeof x === 'number' && typeof y === 'number' ? x - y : String(x).localeCompare(String(y));
+    return sort.desc ? -order : order;
+  });
+
+  // Numbers sort largest first on the first click, text A-Z
+  const toggle = (column: number) => setSort(sort?.column === column
+    ? { column, desc: !sort.desc }
+    : { column, desc: !!columns[column].numeric });
+
+  return (
+    <div className="overflow-x-auto max-h-80 overflow-y-auto">
+      <table className="w-full text-xs text-left">
+        <thead className="uppercase opacity-50 border-b border-[var(--mf-border)]">
+          <tr>
+            {columns.map((c, i) => (
+              <th key={c.label} onClick={() => toggle(i)} className={`py-2 cursor-pointer select-none ${c.numeric ? 'text-right' : ''}`}>
+                <span className="inline-flex items-center gap-1">
+                  {c.label}
+                  {sort?.column === i && (sort.desc ? <ArrowDown size={10}/> : <ArrowUp size={10}/>)}
+                </span>
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {sorted.slice(0, ANALYTICS_PREVIEW).map(row => (
+            <tr key={rowKey(row)} onClick={() => onRowClick(row)}
+              className="border-b border-[var(--mf-border)] border-opacity-10 cursor-pointer hover:bg-[rgba(255,255,255,0.03)]">
+              {columns.map(c => (
+                <td key={c.label} className={`py-2 ${c.numeric ? 'text-right font-mono' : ''}`}>{c.render ? c.render(row) : c.value(row)}</td>
+              ))}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      {rows.length > ANALYTICS_PREVIEW && <p className="text-xs opacity-50 mt-2">Showing first {ANALYTICS_PREVIEW} of {rows.length.toLocaleString()} rows.</p>}
+    </div>
+  );
+};
+
+const GraphAnalyticsPanel: React.FC<GraphAnalyticsPanelProps> = ({ analytics, sizeBy, onSizeBy, onToggleNode }) => {
+  const [view, setView] = useState<AnalyticsView>('centrality');
+
+  const concentrated = analytics.categories.filter(c => hhiLevel(c.hhi) === 'high').length;
+  const tiles: { id: AnalyticsView; label: string; value: number; tone?: string }[] = [
+    { id: 'centrality', label: 'Nodes', value: analytics.nodes.length },
+    { id: 'concentration', label: 'Concentrated Categories', value: concentrated, tone: 'text-yellow-400' },
+    { id: 'dependencies', label: 'Single-Supplier Dependencies', value: analytics.dependencies.length, tone: 'text-red-400' },
+  ];
+
+  return (
+    <div className="space-y-4">
+      <div className="flex justify-between items-center">
+        <h3 className="font-bold flex items-center gap-2"><Activity size={16} className="text-[var(--mf-accent)]"/> Network Analytics</h3>
+        <label className="text-xs opacity-70 flex items-center gap-2">
+          Size nodes by
+          <select value={sizeBy ?? ''} onChange={(e) => onSizeBy((e.target.value || null) as NodeMetricKey | null)}
+            className="text-xs p-1.5 rounded-lg bg-[rgba(0,0,0,0.2)] border border-[var(--mf-border)] text-[var(--mf-text)]">
+            <option value="">Units</option>
+            {(Object.keys(NODE_METRIC_LABELS) as NodeMetricKey[]).map(k => <option key={k} value={k}>{NODE_METRIC_LABELS[k]}</option>)}
+          </select>
+        </label>
+      </div>
+
+      <div className="grid grid-cols-3 gap-3">
+        {tiles.map(t => (
+          <button key={t.id} onClick={() => setView(t.id)}
+            className={`p-3 text-left rounded-xl border transition ${
+              view === t.id ? 'border-[var(--mf-accent)] bg-[rgba(255,255,255,0.05)]' : 'border-[var(--mf-border)] bg-[rgba(255,255,255,0.02)]'
+            }`}>
+            <div className="text-xl font-black">{t.value}</div>
+            <div className={`text-[10px] opacity-50 uppercase ${t.tone ?? ''}`}>{t.label}</div>
+          </button>
+        ))}
+      </div>
+
+      {view === 'centrality' && (
+        <>
+          <SortableTable rows={analytics.nodes} rowKey={m => m.node.id} onRowClick={m => onToggleNode(m.node)} columns={[
+            { label: 'Node', value: m => m.node.id.slice(2), render: m => <span className="font-mono">{m.node.id.slice(2)}</span> },
+            { label: 'Type', value: m => GROUP_LABELS[m.node.group] },
+            { label: 'Units', value: m => m.node.val, render: m => m.node.val.toLocaleString(), numeric: true },
+            { label: 'Degree', value: m => m.degree, numeric: true },
+            { label: 'Weighted', value: m => m.weightedDegree, render: m => m.weightedDegree.toLocaleString(), numeric: true },
+            { label: 'Betweenness', value: m => m.betweenness, render: m => m.betweenness.toFixed(4), numeric: true },
+          ]}/>
+          <p className="text-xs opacity-50">
+            Computed on the graph as drawn (node limit and edge threshold applied), ignoring edge direction.
+            {analytics.sampled && ' Betweenness is estimated from a sample of source nodes.'}
+          </p>
+        </>
+      )}
+
+      {view === 'concentration' && (
+        <SortableTable rows={analytics.categories} rowKey={c => c.category} onRowClick={c => onToggleNode({ id: `C:${c.category}`, group: 2 })} columns={[
+          { label: 'Category', value: c => c.category },
+          { label: 'Suppliers', value: c => c.suppliers, numeric: true },
+          { label: 'Units', value: c => c.units, render: c => c.units.toLocaleString(), numeric: true },
+          { label: 'HHI', value: c => c.hhi, render: c => <span className={HHI_TONES[hhiLevel(c.hhi)]}>{Math.round(c.hhi).toLocaleString()}</span>, numeric: true },
+          { label: 'Top Supplier', value: c => c.topSupplier, render: c => <span className="font-mono">{c.topSupplier}</span> },
+          { label: 'Top Share', value: c => c.topShare, render: c => `${(c.topShare * 100).toFixed(1)}%`, numeric: true },
+        ]}/>
+      )}
+
+      {view === 'dependencies' && (
+        <SortableTable rows={analytics.dependencies} rowKey={d => `${d.kind}:${d.id}`}
+          onRowClick={d => onToggleNode(d.kind === 'category' ? { id: `C:${d.id}`, group: 2 } : { id: `U:${d.id}`, group: 3 })} columns={[
+            { label: 'Type', value: d => d.kind === 'category' ? 'Category' : 'Customer' },
+            { label: 'Name', value: d => d.id, render: d => <span className="font-mono">{d.id}</span> },
+            { label: 'Sole Supplier', value: d => d.supplier, render: d => <span className="font-mono text-red-400">{d.supplier}</span> },
+            { label: 'Units', value: d => d.units, render: d => d.units.toLocaleString(), numeric: true },
+          ]}/>
+      )}
+
+      <p className="text-xs opacity-50">
+        HHI over supplier unit shares: below 1,500 unconcentrated, 1,500–2,500 moderate, above 2,500 highly concentrated.
+        Concentration and dependencies use every filtered row, ignoring the supplier filter. Click a row to filter.
+      </p>
+    </div>
+  );
+};
+
+export default GraphAnalyticsPanel;
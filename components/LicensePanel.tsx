@@ -0,0 +1,82 @@
+import React, { useState } from 'react';
+import { Stamp } from 'lucide-react';
+import { LicenseReport, LicenseStats, LICENSE_TYPE_LABELS } from '../utils/license';
+
+interface LicensePanelProps {
+  report: LicenseReport;
+  activeLicenses: string[];
+  onToggleLicense: (license: string) => void;
+}
+
+type LicenseView = 'all' | 'malformed' | 'conflicts';
+
+const LICENSE_PREVIEW = 100;
+
+const LicensePanel: React.FC<LicensePanelProps> = ({ report, activeLicenses, onToggleLicense }) => {
+  const [view, setView] = useState<LicenseView>('all');
+
+  const rows: LicenseStats[] = view === 'malformed' ? report.malformed : view === 'conflicts' ? report.conflicts : report.licenses;
+  const tiles: { id: LicenseView; label: string; value: number; tone?: string }[] = [
+    { id: 'all', label: 'Licenses', value: report.licenses.length },
+    { id: 'malformed', label: 'Malformed', value: report.malformed.length, tone: 'text-red-400' },
+    { id: 'conflicts', label: 'Name Conflicts', value: report.conflicts.length, tone: 'text-yellow-400' },
+  ];
+
+  return (
+    <div className="space-y-4">
+      <div className="flex justify-between items-center">
+        <h3 className="font-bold flex items-center gap-2"><Stamp size={16} className="text-[var(--mf-accent)]"/> TFDA Licenses</h3>
+        <span className="text-xs opacity-50">{report.missing.toLocaleString()} rows without a license · click a license to filter</span>
+      </div>
+
+      <div className="grid grid-cols-3 gap-3">
+        {tiles.map(t => (
+          <button key={t.id} onClick={() => setView(t.id)}
+            className={`p-3 text-left rounded-xl border transition ${
+              view === t.id ? 'border-[var(--mf-accent)] bg-[rgba(255,255,255,0.05)]' : 'border-[var(--mf-border)] bg-[rgba(255,255,255,0.02)]'
+            }`}>
+            <div className="text-xl font-black">{t.value}</div>
+            <div className={`text-[10px] opacity-50 uppercase ${t.tone ?? ''}`}>{t.label}</div>
+          </button>
+        ))}
+      </div>
+
+      <div className="overflow-x-auto max-h-80 overflow-y-auto">
+        <table className="w-full text-xs text-left">
+          <thead className="uppercase opacity-50 border-b border-[var(--mf-border)]">
+            <tr>
+              <th className="py-2">License</th>
+              <th className="py-2">Authority</th>
+              <th className="py-2">Type</th>
+              <th className="py-2">Serial</th>
+              <th className="py-2">Device Names</th>
+              <th className="py-2 text-right">Suppliers</th>
+              <th className="py-2 text-right">Customers</th>
+              <th className="py-2 text-right">Units</th>
+            </tr>
+          </thead>
+          <tbody>
+            {rows.slice(0, LICENSE_PREVIEW).map(l => (
+              <tr key={l.license} onClick={() => onToggleLicense(l.license)}
+                className={`border-b border-[var(--mf-border)] border-opacity-10 cursor-pointer hover:bg-[rgba(255,255,255,0.03)] ${
+                  activeLicenses.includes(l.license) ? 'bg-[rgba(255,255,255,0.05)]' : ''
+                }`}>
+                <td className={`py-2 font-mono ${l.info.valid ? '' : 'text-red-400'}`}>{l.license}</td>
+                <td className="py-2">{l.info.authority ?? '—'}</td>
+                <td className="py-2">{l.info.type ? `${LICENSE_TYPE_LABELS[l.info.type]}${l.info.classI ? ' · Class I' : ''}` : '—'}</td>
+                <td className="py-2 font-mono">{l.info.serial ?? '—'}</td>
+                <td className={`py-2 ${l.deviceNames.length > 1 ? 'text-yellow-400' : ''}`}>{l.deviceNames.join(' / ')}</td>
+                <td className="py-2 text-right font-mono">{l.suppliers}</td>
+                <td className="py-2 text-right font-mono">{l.customers}</td>
+                <td className="py-2 text-right font-mono">{l.units.toLocaleString()}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        {rows.length > LICENSE_PREVIEW && <p className="text-xs opacity-50 mt-2">Showing first {LICENSE_PREVIEW} of {rows.length.toLocaleString()} licenses.</p>}
+      </div>
+    </div>
+  );
+};
+
+export default LicensePanel;
@@ -1,128 +1,748 @@
-import React, { useEffect, useRef } from 'react';
+import React, { useEffect, useId, useMemo, useRef, useState } from 'react';
 import * as d3 from 'd3';
+import { Download, Maximize2, PinOff, Search } from 'lucide-react';
 import { MedFlowRow, PainterStyle } from '../types';
+import { GraphHighlight } from '../utils/traceability';
+import {
+  buildGraph, GraphData, GraphLayout, GraphLink, GraphNode, linkWidth, neighbourhood, nodeRadius
+} from '../utils/networkGraph';
+import { cachedLayout, getPins, requestLayout, setPins } from '../utils/graphLayout';
+import { egoGraph, layeredLayout, NETWORK_LAYOUT_LABELS, NetworkLayoutKind, radialLayout, sankeyLayout } from '../utils/flowLayouts';
+import { downloadBlob } from '../utils/dataFormats';
 
 interface NetworkGraphProps {
   data: MedFlowRow[];
   style: PainterStyle;
   maxNodes: number;
+  edgeThreshold?: number;
+  highlight?: GraphHighlight;
+  // Called when a node is clicked; the Network tab toggles the matching filter with it
+  onFilterNode?: (node: GraphNode) => void;
+  // Radius in layout units; defaults to the unit-based size. Sankey heights always follow units.
+  nodeSize?: (node: GraphNode) => number;
 }
 
-const NetworkGraph: React.FC<NetworkGraphProps> = ({ data, style, maxNodes }) => {
+type HoverTarget = { node: GraphNode } | { link: GraphLink };
+
+type Position = [number, number];
+
+interface GraphHandlers {
+  onHover: (target: HoverTarget | null, event?: { clientX: number; clientY: number }) => void;
+  onNodeClick: (node: GraphNode, event: MouseEvent) => void;
+  onPin: (id: string, position: Position) => void;
+  onUnpin: (id: string) => void;
+}
+
+interface RendererProps {
+  graph: GraphData;
+  layout: GraphLayout;
+  style: PainterStyle;
+  highlight?: GraphHighlight;
+  pinned: Set<string>;
+  matched: Set<string>;
+  nodeSize: (node: GraphNode) => number;
+  // Dragging pins nodes; only the force layout has free positions to pin
+  draggable: boolean;
+  // A new value resets zoom and pan
+  viewKey: string;
+  handlers: React.RefObject<GraphHandlers>;
+}
+
+const SVG_NS = 'http://www.w3.org/2000/svg';
+
+// Past these sizes one DOM element per node and link costs more than redrawing a canvas
+const SVG_NODE_LIMIT = 300;
+const SVG_LINK_LIMIT = 2000;
+// Screen pixels around the pointer that count as hovering a canvas node or edge
+const HOVER_RADIUS = 12;
+// Arrowhead length in layout units; the head sits on the rim of the target node
+const ARROW_SIZE = 6;
+// Heaviest nodes offered as the centre of the radial view; any other node can be picked by clicking it
+const EGO_CHOICES = 200;
+const ZOOM_EXTENT: [number, number] = [0.1, 20];
+// Longest side of an exported PNG in pixels
+const PNG_MAX_SIZE = 4000;
+
+type LinkState = 'base' | 'lit' | 'dim';
+
+const LINK_OPACITY: Record<LinkState, number> = { base: 0.6, lit: 0.9, dim: 0.08 };
+
+const nodeColor = (node: GraphNode, style: PainterStyle) => style.palette[node.group - 1];
+
+const linkState = (link: GraphLink, highlight?: GraphHighlight): LinkState =>
+  !highlight ? 'base' : highlight.links.has(`${link.source}->${link.target}`) ? 'lit' : 'dim';
+
+const linkColor = (state: LinkState, style: PainterStyle) => state === 'lit' ? style.accent : style.border_rgba_light;
+
+const isLitNode = (node: GraphNode, highlight?: GraphHighlight) => !highlight || highlight.nodes.has(node.id);
+
+// Search hits get a heavy accent ring, pinned nodes a thin one
+const nodeStroke = (node: GraphNode, style: PainterStyle, pinned: Set<string>, matched: Set<string>) =>
+  matched.has(node.id) ? { color: style.accent, width: 3 } : pinned.has(node.id) ? { color: style.accent, width: 1.5 } : { color: '#fff', width: 1.5 };
+
+/** Edge segment from the source centre to the rim of the target, so the arrowhead is not hidden under the node. */
+const edgeEnds = (link: GraphLink, positions: GraphLayout['positions'], targetRadius: number) => {
+  const [x1, y1] = positions[link.source];
+  const [tx, ty] = positions[link.target];
+  const dx = tx - x1;
+  const dy = ty - y1;
+  const length = Math.hypot(dx, dy) || 1;
+  const trim = Math.min(length, targetRadius + 1);
+  return { x1, y1, x2: tx - dx / length * trim, y2: ty - dy / length * trim, ux: dx / length, uy: dy / length };
+};
+
+/** Markers, edges and nodes at their positions, unstyled; shared by the live SVG view and the export. */
+const buildSvgGraph = (
+  svgElement: SVGSVGElement, graph: GraphData, layout: GraphLayout, positions: GraphLayout['positions'], markerId: string, nodeSize: (node: GraphNode) => number
+) => {
+  const radius = new Map(graph.nodes.map(n => [n.id, nodeSize(n)]));
+  const ends = (d: GraphLink) => edgeEnds(d, positions, radius.get(d.target) ?? 0);
+
+  d3.select(svgElement).selectAll("*").remove();
+
+  const svg = d3.select(svgElement)
+    .attr("viewBox", layout.bounds)
+    .attr("data-graph", "");
+
+  const markers = svg.append("defs")
+    .selectAll("marker")
+    .data(Object.keys(LINK_OPACITY) as LinkState[])
+    .join("marker")
+    .attr("id", s => `${markerId}-${s}`)
+    .attr("viewBox", `0 -${ARROW_SIZE / 2} ${ARROW_SIZE} ${ARROW_SIZE}`)
+    .attr("refX", ARROW_SIZE)
+    .attr("markerUnits", "userSpaceOnUse")
+    .attr("markerWidth", ARROW_SIZE)
+    .attr("markerHeight", ARROW_SIZE)
+    .attr("orient", "auto")
+    .append("path")
+    .attr("d", `M0,-${ARROW_SIZE / 2}L${ARROW_SIZE},0L0,${ARROW_SIZE / 2}Z`);
+
+  const zoomLayer = svg.append("g").attr("data-zoom", "");
+
+  const link = zoomLayer.append("g")
+    .selectAll<SVGLineElement, GraphLink>("line")
+    .data(graph.links)
+    .join("line")
+    .attr("stroke-width", d => linkWidth(d, graph.maxLinkValue));
+
+  // Thin edges are hard to point at, so a wider transparent copy takes the hover
+  const hit = zoomLayer.append("g")
+    .attr("stroke", "transparent")
+    .selectAll<SVGLineElement, GraphLink>("line")
+    .data(graph.links)
+    .join("line")
+    .attr("stroke-width", d => Math.max(HOVER_RADIUS / 2, linkWidth(d, graph.maxLinkValue)));
+
+  const placeLinks = (selection: d3.Selection<SVGLineElement, GraphLink, SVGGElement, unknown>) => selection
+    .attr("x1", d => ends(d).x1)
+    .attr("y1", d => ends(d).y1)
+    .attr("x2", d => ends(d).x2)
+    .attr("y2", d => ends(d).y2);
+  placeLinks(link);
+  placeLinks(hit);
+
+  const node = zoomLayer.append("g")
+    .selectAll<SVGCircleElement, GraphNode>("circle")
+    .data(graph.nodes)
+    .join("circle")
+    .attr("r", d => radius.get(d.id) ?? 0)
+    .attr("cx", d => positions[d.id][0])
+    .attr("cy", d => positions[d.id][1]);
+
+  return { markers, zoomLayer, link, hit, node, placeLinks };
+};
+
+type SvgGraph = ReturnType<typeof buildSvgGraph>;
+
+/** Colours and opacities only, so theme switches, hover focus and search never rebuild the DOM. */
+const styleSvgGraph = (g: SvgGraph, markerId: string, style: PainterStyle, highlight: GraphHighlight | undefined, pinned: Set<string>, matched: Set<string>) => {
+  g.markers
+    .attr("fill", s => linkColor(s, style))
+    .attr("fill-opacity", s => LINK_OPACITY[s]);
+
+  // Highlighted paths keep full colour, everything else fades into context
+  g.link
+    .attr("stroke", d => linkColor(linkState(d, highlight), style))
+    .attr("stroke-opacity", d => LINK_OPACITY[linkState(d, highlight)])
+    .attr("marker-end", d => `url(#${markerId}-${linkState(d, highlight)})`);
+
+  g.node
+    .attr("fill", d => nodeColor(d, style))
+    .attr("opacity", d => isLitNode(d, highlight) ? 1 : 0.15)
+    .attr("stroke", d => nodeStroke(d, style, pinned, matched).color)
+    .attr("stroke-width", d => nodeStroke(d, style, pinned, matched).width);
+};
+
+/** d3 zoom and pan on the element; every transform goes to `apply`, and it resets whenever `viewKey` changes. */
+const useZoom = <E extends Element>(
+  ref: React.RefObject<E | null>,
+  viewKey: string,
+  apply: (transform: d3.ZoomTransform) => void,
+  filter?: (event: MouseEvent) => boolean
+) => {
+  const transform = useRef(d3.zoomIdentity);
+  const applyRef = useRef(apply);
+  applyRef.current = apply;
+  const filterRef = useRef(filter);
+  filterRef.current = filter;
+
+  useEffect(() => {
+    if (!ref.current) return;
+    const zoom = d3.zoom<E, unknown>()
+      .scaleExtent(ZOOM_EXTENT)
+      .filter(event => (!event.ctrlKey || event.type === 'wheel') && !event.button && (filterRef.current?.(event) ?? true))
+      .on("zoom", event => {
+        transform.current = event.transform;
+        applyRef.current(event.transform);
+      });
+    const selection = d3.select(ref.current);
+    // Double-click belongs to the nodes (unpin)
+    selection.call(zoom).on("dblclick.zoom", null);
+    selection.call(zoom.transform, d3.zoomIdentity);
+    return () => { selection.on(".zoom", null); };
+  }, [ref, viewKey]);
+
+  return transform;
+};
+
+const SvgNetwork: React.FC<RendererProps> = ({ graph, layout, style, highlight, pinned, matched, nodeSize, draggable, viewKey, handlers }) => {
   const svgRef = useRef<SVGSVGElement>(null);
+  const svgGraph = useRef<SvgGraph | null>(null);
+  const markerId = `mf-arrow-${useId().replace(/[^\w-]/g, '')}`;
+  const zoom = useZoom(svgRef, viewKey, t => svgGraph.current?.zoomLayer.attr("transform", t.toString()));
 
   useEffect(() => {
-    if (!data.length || !svgRef.current) return;
+    if (!svgRef.current) return;
+    // Dragging moves this copy; the new position is handed up as a pin when the drag ends
+    const positions = { ...layout.positions };
+    const g = buildSvgGraph(svgRef.current, graph, layout, positions, markerId, nodeSize);
+    svgGraph.current = g;
+    d3.select(svgRef.current).attr("style", "max-width: 100%; height: auto;");
+    g.zoomLayer.attr("transform", zoom.current.toString());
+
+    g.hit
+      .on("mousemove", (event, d) => handlers.current.onHover({ link: d }, event))
+      .on("mouseleave", () => handlers.current.onHover(null));
 
-    const width = 800;
-    const height = 600;
+    g.node
+      .attr("cursor", "pointer")
+      .on("mousemove", (event, d) => handlers.current.onHover({ node: d }, event))
+      .on("mouseleave", () => handlers.current.onHover(null))
+      .on("click", (event, d) => handlers.current.onNodeClick(d, event))
+      .on("dblclick", (_, d) => handlers.current.onUnpin(d.id));
 
-    // Clear previous
-    d3.select(svgRef.current).selectAll("*").remove();
+    if (draggable) {
+      g.node.call(d3.drag<SVGCircleElement, GraphNode>()
+        .on("drag", function (event, d) {
+          positions[d.id] = [event.x, event.y];
+          d3.select(this).attr("cx", event.x).attr("cy", event.y);
+          const touches = (l: GraphLink) => l.source === d.id || l.target === d.id;
+          g.placeLinks(g.link.filter(touches));
+          g.placeLinks(g.hit.filter(touches));
+        })
+        .on("end", (_, d) => {
+          // A plain click ends a drag too; only an actual move pins the node
+          if (positions[d.id] !== layout.positions[d.id]) handlers.current.onPin(d.id, positions[d.id]);
+        }));
+    }
+  }, [graph, layout, markerId, nodeSize, draggable, handlers, zoom]);
+
+  // Declared after the build effect, so it also runs after every rebuild
+  useEffect(() => {
+    if (svgGraph.current) styleSvgGraph(svgGraph.current, markerId, style, highlight, pinned, matched);
+  }, [graph, layout, markerId, nodeSize, draggable, style, highlight, pinned, matched]);
 
-    const svg = d3.select(svgRef.current)
-      .attr("viewBox", [0, 0, width, height])
-      .attr("style", "max-width: 100%; height: auto;");
+  return <svg ref={svgRef} className="w-full h-full"></svg>;
+};
 
-    // Aggregate Data
-    const nodesMap = new Map<string, { id: string, group: number, val: number }>();
-    const links: { source: string, target: string, value: number }[] = [];
+const CanvasNetwork: React.FC<RendererProps> = ({ graph, layout, style, highlight, pinned, matched, nodeSize, draggable, viewKey, handlers }) => {
+  const wrapRef = useRef<HTMLDivElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [size, setSize] = useState({ width: 0, height: 0 });
+  const drawRef = useRef(() => {});
 
-    data.forEach(r => {
-        const sup = `S:${r.SupplierID}`;
-        const cat = `C:${r.Category}`;
-        const cust = `U:${r.CustomerID}`;
+  useEffect(() => {
+    if (!wrapRef.current) return;
+    const observer = new ResizeObserver(([entry]) => setSize({ width: entry.contentRect.width, height: entry.contentRect.height }));
+    observer.observe(wrapRef.current);
+    return () => observer.disconnect();
+  }, []);
 
-        if (!nodesMap.has(sup)) nodesMap.set(sup, { id: sup, group: 1, val: 0 });
-        if (!nodesMap.has(cat)) nodesMap.set(cat, { id: cat, group: 2, val: 0 });
-        if (!nodesMap.has(cust)) nodesMap.set(cust, { id: cust, group: 3, val: 0 });
+  // Fit the layout bounds into the element the way the SVG viewBox does (centred, aspect kept)
+  const [bx, by, bw, bh] = layout.bounds;
+  const scale = Math.min(size.width / bw, size.height / bh) || 1;
+  const offsetX = (size.width - bw * scale) / 2 - bx * scale;
+  const offsetY = (size.height - bh * scale) / 2 - by * scale;
+  const fit = useRef({ scale, offsetX, offsetY });
+  fit.current = { scale, offsetX, offsetY };
 
-        nodesMap.get(sup)!.val += r.Number;
-        nodesMap.get(cat)!.val += r.Number;
-        nodesMap.get(cust)!.val += r.Number;
+  const radius = useMemo(() => new Map(graph.nodes.map(n => [n.id, nodeSize(n)])), [graph, nodeSize]);
 
-        links.push({ source: sup, target: cat, value: r.Number });
-        links.push({ source: cat, target: cust, value: r.Number });
-    });
+  // Dragging moves this copy; the new position is handed up as a pin when the drag ends
+  const positions = useMemo(() => ({ ...layout.positions }), [layout]);
+  const finder = useMemo(() => d3.quadtree<GraphNode>()
+    .x(n => positions[n.id][0])
+    .y(n => positions[n.id][1])
+    .addAll(graph.nodes), [graph, positions]);
 
-    // Limit Nodes
-    const allNodes = Array.from(nodesMap.values()).sort((a, b) => b.val - a.val).slice(0, maxNodes);
-    const nodeIds = new Set(allNodes.map(n => n.id));
-    const validLinks = links.filter(l => nodeIds.has(l.source) && nodeIds.has(l.target));
-
-    const simulation = d3.forceSimulation(allNodes as any)
-      .force("link", d3.forceLink(validLinks).id((d: any) => d.id).distance(50))
-      .force("charge", d3.forceManyBody().strength(-100))
-      .force("center", d3.forceCenter(width / 2, height / 2))
-      .force("collide", d3.forceCollide().radius((d: any) => Math.sqrt(d.val) + 5));
-
-    const link = svg.append("g")
-      .attr("stroke", style.border_rgba_light)
-      .attr("stroke-opacity", 0.6)
-      .selectAll("line")
-      .data(validLinks)
-      .join("line")
-      .attr("stroke-width", d => Math.sqrt(d.value) * 0.5);
-
-    const node = svg.append("g")
-      .attr("stroke", "#fff")
-      .attr("stroke-width", 1.5)
-      .selectAll("circle")
-      .data(allNodes)
-      .join("circle")
-      .attr("r", d => Math.min(20, Math.max(3, Math.sqrt(d.val))))
-      .attr("fill", d => {
-          if (d.group === 1) return style.palette[0];
-          if (d.group === 2) return style.palette[1];
-          return style.palette[2];
-      })
-      .call(drag(simulation) as any);
+  const zoom = useZoom(canvasRef, viewKey, () => drawRef.current(),
+    // A press on a node starts a drag rather than a pan
+    event => event.type !== 'mousedown' || !draggable || !nodeAtEvent(event));
 
-    node.append("title")
-      .text(d => `${d.id}\nUnits: ${d.val}`);
+  /** Canvas pixel → layout coordinates, through zoom and fit. */
+  const toLayout = (px: number, py: number): Position => {
+    const [zx, zy] = zoom.current.invert([px, py]);
+    return [(zx - fit.current.offsetX) / fit.current.scale, (zy - fit.current.offsetY) / fit.current.scale];
+  };
 
-    simulation.on("tick", () => {
-      link
-        .attr("x1", (d: any) => d.source.x)
-        .attr("y1", (d: any) => d.source.y)
-        .attr("x2", (d: any) => d.target.x)
-        .attr("y2", (d: any) => d.target.y);
+  const tolerance = () => HOVER_RADIUS / (fit.current.scale * zoom.current.k);
 
-      node
-        .attr("cx", (d: any) => d.x)
-        .attr("cy", (d: any) => d.y);
-    });
+  const nodeAt = (px: number, py: number) => {
+    const [x, y] = toLayout(px, py);
+    return finder.find(x, y, tolerance());
+  };
 
-    function drag(simulation: any) {
-      function dragstarted(event: any) {
-        if (!event.active) simulation.alphaTarget(0.3).restart();
-        event.subject.fx = event.subject.x;
-        event.subject.fy = event.subject.y;
-      }
-      function dragged(event: any) {
-        event.subject.fx = event.x;
-        event.subject.fy = event.y;
+  const nodeAtEvent = (event: { clientX: number; clientY: number }) => {
+    const rect = canvasRef.current!.getBoundingClientRect();
+    return nodeAt(event.clientX - rect.left, event.clientY - rect.top);
+  };
+
+  useEffect(() => {
+    drawRef.current = () => {
+      const canvas = canvasRef.current;
+      const ctx = canvas?.getContext('2d');
+      if (!canvas || !ctx || !size.width) return;
+      const dpr = window.devicePixelRatio || 1;
+      if (canvas.width !== Math.round(size.width * dpr)) canvas.width = Math.round(size.width * dpr);
+      if (canvas.height !== Math.round(size.height * dpr)) canvas.height = Math.round(size.height * dpr);
+      ctx.setTransform(1, 0, 0, 1, 0, 0);
+      ctx.clearRect(0, 0, canvas.width, canvas.height);
+      const z = zoom.current;
+      const k = dpr * z.k * scale;
+      ctx.setTransform(k, 0, 0, k, dpr * (z.x + z.k * offsetX), dpr * (z.y + z.k * offsetY));
+
+      // One path per stroke width keeps thousands of edges to a few dozen draw calls; lit edges go on top
+      const drawLinks = (links: GraphLink[], state: LinkState) => {
+        const buckets = new Map<number, GraphLink[]>();
+        links.forEach(l => {
+          const w = Math.round(linkWidth(l, graph.maxLinkValue) * 2) / 2;
+          let b = buckets.get(w);
+          if (!b) buckets.set(w, b = []);
+          b.push(l);
+        });
+        ctx.strokeStyle = linkColor(state, style);
+        ctx.fillStyle = linkColor(state, style);
+        ctx.globalAlpha = LINK_OPACITY[state];
+        const heads = new Path2D();
+        buckets.forEach((bucket, w) => {
+          ctx.lineWidth = w;
+          ctx.beginPath();
+          bucket.forEach(l => {
+            const e = edgeEnds(l, positions, radius.get(l.target) ?? 0);
+            const baseX = e.x2 - e.ux * ARROW_SIZE;
+            const baseY = e.y2 - e.uy * ARROW_SIZE;
+            ctx.moveTo(e.x1, e.y1);
+            ctx.lineTo(baseX, baseY);
+            heads.moveTo(e.x2, e.y2);
+            heads.lineTo(baseX - e.uy * ARROW_SIZE / 2, baseY + e.ux * ARROW_SIZE / 2);
+            heads.lineTo(baseX + e.uy * ARROW_SIZE / 2, baseY - e.ux * ARROW_SIZE / 2);
+            heads.closePath();
+          });
+          ctx.stroke();
+        });
+        ctx.fill(heads);
+      };
+      if (highlight) {
+        drawLinks(graph.links.filter(l => linkState(l, highlight) === 'dim'), 'dim');
+        drawLinks(graph.links.filter(l => linkState(l, highlight) === 'lit'), 'lit');
+      } else {
+        drawLinks(graph.links, 'base');
       }
-      function dragended(event: any) {
-        if (!event.active) simulation.alphaTarget(0);
-        event.subject.fx = null;
-        event.subject.fy = null;
+
+      graph.nodes.forEach(n => {
+        const stroke = nodeStroke(n, style, pinned, matched);
+        ctx.globalAlpha = isLitNode(n, highlight) ? 1 : 0.15;
+        ctx.fillStyle = nodeColor(n, style);
+        ctx.strokeStyle = stroke.color;
+        ctx.lineWidth = stroke.width;
+        ctx.beginPath();
+        ctx.arc(positions[n.id][0], positions[n.id][1], radius.get(n.id) ?? 0, 0, Math.PI * 2);
+        ctx.fill();
+        ctx.stroke();
+      });
+      ctx.globalAlpha = 1;
+    };
+    drawRef.current();
+  }, [graph, positions, style, highlight, pinned, matched, size, scale, offsetX, offsetY, radius, zoom]);
+
+  useEffect(() => {
+    if (!canvasRef.current || !draggable) return;
+    const selection = d3.select(canvasRef.current);
+    selection.call(d3.drag<HTMLCanvasElement, unknown, GraphNode | undefined>()
+      .container(function () { return this; })
+      .subject(event => nodeAt(event.x, event.y))
+      .on("drag", event => {
+        positions[event.subject!.id] = toLayout(event.x, event.y);
+        drawRef.current();
+      })
+      .on("end", event => {
+        const id = event.subject!.id;
+        if (positions[id] === layout.positions[id]) return;
+        finder.remove(event.subject!).add(event.subject!);
+        handlers.current.onPin(id, positions[id]);
+      }));
+    return () => { selection.on(".drag", null); };
+  });
+
+  // Nodes win over edges; edges are checked by distance to their segment
+  const hitTest = (px: number, py: number): HoverTarget | null => {
+    const node = nodeAt(px, py);
+    if (node) return { node };
+    const [x, y] = toLayout(px, py);
+    let best: GraphLink | null = null;
+    let bestDistance = Infinity;
+    graph.links.forEach(l => {
+      const [x1, y1] = positions[l.source];
+      const [x2, y2] = positions[l.target];
+      const dx = x2 - x1;
+      const dy = y2 - y1;
+      const t = Math.max(0, Math.min(1, ((x - x1) * dx + (y - y1) * dy) / (dx * dx + dy * dy || 1)));
+      const distance = Math.hypot(x - (x1 + t * dx), y - (y1 + t * dy)) - linkWidth(l, graph.maxLinkValue) / 2;
+      if (distance < bestDistance) {
+        bestDistance = distance;
+        best = l;
       }
-      return d3.drag()
-        .on("start", dragstarted)
-        .on("drag", dragged)
-        .on("end", dragended);
+    });
+    return best && bestDistance <= tolerance() ? { link: best } : null;
+  };
+
+  const targetAt = (e: React.MouseEvent<HTMLCanvasElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    return hitTest(e.clientX - rect.left, e.clientY - rect.top);
+  };
+
+  const onClick = (e: React.MouseEvent<HTMLCanvasElement>) => {
+    const node = nodeAtEvent(e);
+    if (node) handlers.current.onNodeClick(node, e.nativeEvent);
+  };
+
+  const onDoubleClick = (e: React.MouseEvent<HTMLCanvasElement>) => {
+    const node = nodeAtEvent(e);
+    if (node) handlers.current.onUnpin(node.id);
+  };
+
+  return (
+    <div ref={wrapRef} className="w-full h-full">
+      <canvas ref={canvasRef} className="w-full h-full"
+        onMouseMove={(e) => handlers.current.onHover(targetAt(e), e)} onMouseLeave={() => handlers.current.onHover(null)}
+        onClick={onClick} onDoubleClick={onDoubleClick}></canvas>
+    </div>
+  );
+};
+
+const SANKEY_LINK_OPACITY: Record<LinkState, number> = { base: 0.35, lit: 0.8, dim: 0.05 };
+// Nodes shorter than this get no label; they would only overlap their neighbours
+const SANKEY_LABEL_MIN_HEIGHT = 8;
+
+const SankeyNetwork: React.FC<Omit<RendererProps, 'layout' | 'pinned' | 'nodeSize' | 'draggable'>> = ({ graph, style, highlight, matched, viewKey, handlers }) => {
+  const svgRef = useRef<SVGSVGElement>(null);
+  const layerRef = useRef<SVGGElement>(null);
+  const sankey = useMemo(() => sankeyLayout(graph), [graph]);
+  const colorOf = new Map(sankey.nodes.map(n => [n.node.id, nodeColor(n.node, style)]));
+  useZoom(svgRef, viewKey, t => layerRef.current?.setAttribute("transform", t.toString()));
+
+  return (
+    <svg ref={svgRef} data-graph="" viewBox={`0 0 ${sankey.width} ${sankey.height}`} className="w-full h-full text-[var(--mf-text)]">
+      <g ref={layerRef} data-zoom="">
+        <g fill="none">
+          {sankey.links.map(l => {
+            const state = linkState(l.link, highlight);
+            const bend = (l.x1 - l.x0) / 2;
+            return (
+              <path key={`${l.link.source}->${l.link.target}`}
+                d={`M${l.x0},${l.y0}C${l.x0 + bend},${l.y0} ${l.x1 - bend},${l.y1} ${l.x1},${l.y1}`}
+                stroke={state === 'lit' ? style.accent : colorOf.get(l.link.source)} strokeOpacity={SANKEY_LINK_OPACITY[state]} strokeWidth={l.width}
+                onMouseMove={(e) => handlers.current.onHover({ link: l.link }, e)} onMouseLeave={() => handlers.current.onHover(null)}/>
+            );
+          })}
+        </g>
+        {sankey.nodes.map(n => (
+          <g key={n.node.id} opacity={isLitNode(n.node, highlight) ? 1 : 0.25} cursor="pointer"
+            onMouseMove={(e) => handlers.current.onHover({ node: n.node }, e)} onMouseLeave={() => handlers.current.onHover(null)}
+            onClick={(e) => handlers.current.onNodeClick(n.node, e.nativeEvent)}>
+            <rect x={n.x0} y={n.y0} width={n.x1 - n.x0} height={Math.max(1, n.y1 - n.y0)} fill={colorOf.get(n.node.id)}
+              stroke={matched.has(n.node.id) ? style.accent : 'none'} strokeWidth={2}/>
+            {(n.y1 - n.y0 >= SANKEY_LABEL_MIN_HEIGHT || matched.has(n.node.id)) && (
+              <text x={n.node.group === 3 ? n.x0 - 4 : n.x1 + 4} y={(n.y0 + n.y1) / 2} dy="0.35em" fontSize={9} fill="currentColor"
+                textAnchor={n.node.group === 3 ? 'end' : 'start'} pointerEvents="none">
+                {n.node.id.slice(2)}
+              </text>
+            )}
+          </g>
+        ))}
+      </g>
+    </svg>
+  );
+};
+
+const HoverCard: React.FC<{ target: HoverTarget }> = ({ target }) => {
+  if ('node' in target) {
+    return <div className="font-mono">{target.node.id}<div className="opacity-70">Units: {target.node.val.toLocaleString()}</div></div>;
+  }
+  const l = target.link;
+  return (
+    <div className="space-y-1">
+      <div className="font-mono">{l.source} → {l.target}</div>
+      <div className="opacity-70">{l.value.toLocaleString()} units · {l.shipments.toLocaleString()} shipment{l.shipments === 1 ? '' : 's'}</div>
+      {l.devices.length > 0 && (
+        <div>
+          <div className="opacity-50 uppercase text-[10px]">Top devices</div>
+          {l.devices.map(d => <div key={d.key}>{d.key} <span className="opacity-60">({d.units.toLocaleString()})</span></div>)}
+        </div>
+      )}
+      {l.dates.length > 0 && (
+        <div>
+          <div className="opacity-50 uppercase text-[10px]">Top dates</div>
+          {l.dates.map(d => <div key={d.key}>{d.key} <span className="opacity-60">({d.units.toLocaleString()})</span></div>)}
+        </div>
+      )}
+    </div>
+  );
+};
+
+/** Standalone markup of the whole graph, zoom reset, on the page background so it reads outside the app. */
+const exportMarkup = (svg: SVGSVGElement, fallbackBg: string) => {
+  const root = getComputedStyle(document.documentElement);
+  const [x, y, w, h] = (svg.getAttribute('viewBox') ?? '0 0 800 600').split(/[\s,]+/).map(Number);
+  svg.querySelector('[data-zoom]')?.removeAttribute('transform');
+  svg.removeAttribute('style');
+  svg.removeAttribute('class');
+  svg.setAttribute('xmlns', SVG_NS);
+  svg.setAttribute('width', String(Math.round(w)));
+  svg.setAttribute('height', String(Math.round(h)));
+  svg.setAttribute('color', root.getPropertyValue('--mf-text').trim() || 'currentColor');
+  const background = document.createElementNS(SVG_NS, 'rect');
+  background.setAttribute('x', String(x));
+  background.setAttribute('y', String(y));
+  background.setAttribute('width', String(w));
+  background.setAttribute('height', String(h));
+  background.setAttribute('fill', root.getPropertyValue('--mf-bg').trim() || fallbackBg);
+  svg.insertBefore(background, svg.firstChild);
+  return { markup: new XMLSerializer().serializeToString(svg), width: w, height: h };
+};
+
+const rasterize = async (markup: string, width: number, height: number): Promise<Blob> => {
+  const url = URL.createObjectURL(new Blob([markup], { type: 'image/svg+xml' }));
+  try {
+    const image = new Image();
+    image.src = url;
+    await image.decode();
+    const factor = Math.min(3, PNG_MAX_SIZE / Math.max(width, height));
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.round(width * factor);
+    canvas.height = Math.round(height * factor);
+    canvas.getContext('2d')!.drawImage(image, 0, 0, canvas.width, canvas.height);
+    return await new Promise<Blob>((resolve, reject) => canvas.toBlob(b => b ? resolve(b) : reject(new Error('PNG encoding failed')), 'image/png'));
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+};
+
+const NetworkGraph: React.FC<NetworkGraphProps> = ({ data, style, maxNodes, edgeThreshold = 1, highlight, onFilterNode, nodeSize = nodeRadius }) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const graph = useMemo(() => buildGraph(data, maxNodes, edgeThreshold), [data, maxNodes, edgeThreshold]);
+  const [layout, setLayout] = useState<GraphLayout | null>(() => cachedLayout(graph));
+  const [error, setError] = useState<string | null>(null);
+  const [hover, setHover] = useState<{ target: HoverTarget; x: number; y: number } | null>(null);
+  const [focusId, setFocusId] = useState<string | null>(null);
+  const [kind, setKind] = useState<NetworkLayoutKind>('force');
+  const [egoId, setEgoId] = useState<string | null>(null);
+  const [search, setSearch] = useState('');
+  const [pins, setPinState] = useState(getPins);
+  const [resets, setResets] = useState(0);
+
+  const center = egoId && graph.nodes.some(n => n.id === egoId) ? egoId : graph.nodes[0]?.id ?? null;
+
+  // Layered and radial positions are cheap and deterministic, so they are computed here rather than in the worker
+  const fixed = useMemo((): { view: GraphData; layout: GraphLayout } | null => {
+    if (kind === 'layered') return { view: graph, layout: layeredLayout(graph) };
+    if (kind === 'radial' && center) {
+      const ego = egoGraph(graph, center);
+      return { view: ego, layout: radialLayout(ego) };
     }
+    return null;
+  }, [kind, graph, center]);
 
-    return () => {
-        simulation.stop();
-    };
+  useEffect(() => {
+    setHover(null);
+    setFocusId(null);
+    if (kind !== 'force' || !graph.nodes.length) return;
+    let live = true;
+    setError(null);
+    requestLayout(graph)
+      .then(l => { if (live) setLayout(l); })
+      .catch(e => { if (live) setError(e instanceof Error ? e.message : String(e)); });
+    return () => { live = false; };
+  }, [graph, kind]);
+
+  const forceLayout = layout?.key === graph.key ? layout : cachedLayout(graph);
+  // Pins are laid over whichever force layout is current, so they hold across re-renders, new data and tab switches
+  const pinnedLayout = useMemo(() => forceLayout && {
+    ...forceLayout,
+    positions: { ...forceLayout.positions, ...Object.fromEntries(graph.nodes.filter(n => pins[n.id]).map(n => [n.id, pins[n.id]])) },
+  }, [forceLayout, pins, graph]);
+
+  const view = fixed?.view ?? graph;
+  const current = fixed ? fixed.layout : pinnedLayout;
+  const pinned = useMemo(() => new Set(kind === 'force' ? graph.nodes.filter(n => pins[n.id]).map(n => n.id) : []), [kind, graph, pins]);
+
+  const matched = useMemo(() => {
+    const q = search.trim().toLowerCase();
+    return new Set(q ? view.nodes.filter(n => n.id.toLowerCase().includes(q)).map(n => n.id) : []);
+  }, [view, search]);
+
+  // Hovering a node dims everything outside its neighbourhood; otherwise search hits, otherwise the caller's highlight
+  const effectiveHighlight = useMemo(() => {
+    if (focusId) return neighbourhood(view, new Set([focusId]));
+    if (matched.size) return neighbourhood(view, matched);
+    return highlight;
+  }, [view, focusId, matched, highlight]);
+
+  const updatePins = (next: GraphLayout['positions']) => {
+    setPins(next);
+    setPinState(next);
+  };
+
+  // Without a filter callback a plain click recentres the radial view
+  const recentreOnClick = kind === 'radial' && !onFilterNode;
+
+  // Renderers read the latest handlers through a ref, so a new closure never rebuilds the drawing
+  const handlers = useRef<GraphHandlers>(null!);
+  handlers.current = {
+    onHover: (target, event) => {
+      const rect = containerRef.current?.getBoundingClientRect();
+      setHover(target && event && rect ? { target, x: event.clientX - rect.left, y: event.clientY - rect.top } : null);
+      setFocusId(target && 'node' in target ? target.node.id : null);
+    },
+    onNodeClick: (node, event) => {
+      if (recentreOnClick || (kind === 'radial' && event.shiftKey)) setEgoId(node.id);
+      else onFilterNode?.(node);
+    },
+    onPin: (id, position) => updatePins({ ...getPins(), [id]: position }),
+    onUnpin: (id) => {
+      if (!getPins()[id]) return;
+      const { [id]: _, ...rest } = getPins();
+      updatePins(rest);
+    },
+  };
+
+  const exportGraph = async (format: 'svg' | 'png') => {
+    let svg: SVGSVGElement;
+    if (kind === 'sankey') {
+      const live = containerRef.current?.querySelector<SVGSVGElement>('svg[data-graph]');
+      if (!live) return;
+      svg = live.cloneNode(true) as SVGSVGElement;
+    } else {
+      // Canvas views have no markup to clone, so every layout is exported through the SVG builder
+      if (!current) return;
+      svg = document.createElementNS(SVG_NS, 'svg');
+      const g = buildSvgGraph(svg, view, current, current.positions, 'mf-arrow-export', nodeSize);
+      styleSvgGraph(g, 'mf-arrow-export', style, highlight, new Set(), new Set());
+    }
+    const { markup, width, height } = exportMarkup(svg, style.bg_from);
+    const name = `medflow_network_${kind}`;
+    try {
+      if (format === 'svg') downloadBlob(markup, `${name}.svg`, 'image/svg+xml');
+      else downloadBlob(await rasterize(markup, width, height), `${name}.png`, 'image/png');
+    } catch (e) {
+      setError(e instanceof Error ? e.message : String(e));
+    }
+  };
 
-  }, [data, style, maxNodes]);
+  const useCanvas = view.nodes.length > SVG_NODE_LIMIT || view.links.length > SVG_LINK_LIMIT;
+  const width = containerRef.current?.clientWidth ?? 0;
+  const egoChoices = center ? [center, ...graph.nodes.slice(0, EGO_CHOICES).map(n => n.id).filter(id => id !== center)] : [];
+  const hints = [
+    onFilterNode && 'Click a node to filter',
+    kind === 'radial' && (recentreOnClick ? 'Click a node to recentre' : 'Shift-click to recentre'),
+    kind === 'force' && 'Drag to pin',
+  ].filter(Boolean).join(' · ');
+  const rendererProps = {
+    graph: view,
+    style,
+    highlight: effectiveHighlight,
+    pinned,
+    matched,
+    nodeSize,
+    draggable: kind === 'force',
+    viewKey: `${kind}:${view.key}:${resets}`,
+    handlers,
+  };
+  const controlClass = "p-1.5 rounded-lg bg-[rgba(0,0,0,0.4)] border border-[var(--mf-border)] text-[var(--mf-text)]";
+  const buttonClass = `${controlClass} flex items-center gap-1 hover:border-[var(--mf-accent)]`;
 
   return (
-    <div className="w-full h-[600px] overflow-hidden rounded-xl border border-[var(--mf-border)] bg-[var(--mf-card)]">
-      <svg ref={svgRef} className="w-full h-full"></svg>
+    <div ref={containerRef} className="relative w-full h-[600px] overflow-hidden rounded-xl border border-[var(--mf-border)] bg-[var(--mf-card)]">
+      {graph.nodes.length > 0 && (
+        <div className="absolute top-2 left-2 right-2 z-10 flex flex-wrap items-center gap-2 text-xs pointer-events-none [&>*]:pointer-events-auto">
+          <select value={kind} onChange={(e) => setKind(e.target.value as NetworkLayoutKind)} className={controlClass}>
+            {(Object.keys(NETWORK_LAYOUT_LABELS) as NetworkLayoutKind[]).map(k => <option key={k} value={k}>{NETWORK_LAYOUT_LABELS[k]}</option>)}
+          </select>
+          {kind === 'radial' && (
+            <select value={center ?? ''} onChange={(e) => setEgoId(e.target.value)} className={`${controlClass} max-w-48`}>
+              {egoChoices.map(id => <option key={id} value={id}>{id}</option>)}
+            </select>
+          )}
+          <label className={`${controlClass} flex items-center gap-1`}>
+            <Search size={12} className="opacity-50"/>
+            <input value={search} onChange={(e) => setSearch(e.target.value)} placeholder="Find node ID..."
+              className="w-32 bg-transparent outline-none"/>
+            {search.trim() && <span className="opacity-60">{matched.size}</span>}
+          </label>
+          {pinned.size > 0 && (
+            <button onClick={() => updatePins(Object.fromEntries(Object.entries(getPins()).filter(([id]) => !pinned.has(id))))}
+              className={buttonClass} title="Double-click a node to unpin just that one">
+              <PinOff size={12}/> Unpin all ({pinned.size})
+            </button>
+          )}
+          {hints && <span className="opacity-50">{hints}</span>}
+          <div className="ml-auto flex items-center gap-2">
+            <button onClick={() => setResets(r => r + 1)} className={buttonClass} title="Reset zoom and pan">
+              <Maximize2 size={12}/>
+            </button>
+            <button onClick={() => exportGraph('svg')} className={buttonClass}>
+              <Download size={12}/> SVG
+            </button>
+            <button onClick={() => exportGraph('png')} className={buttonClass}>
+              <Download size={12}/> PNG
+            </button>
+          </div>
+        </div>
+      )}
+      {kind === 'sankey'
+        ? graph.links.length > 0 && <SankeyNetwork {...rendererProps} />
+        : current && (useCanvas
+          ? <CanvasNetwork {...rendererProps} layout={current} />
+          : <SvgNetwork {...rendererProps} layout={current} />)}
+      {kind === 'force' && graph.nodes.length > 0 && !current && (
+        <div className="absolute inset-0 flex items-center justify-center text-sm opacity-60">
+          {error ? `Layout failed: ${error}` : `Laying out ${graph.nodes.length.toLocaleString()} nodes…`}
+        </div>
+      )}
+      {hover && (
+        // Flips to the left of the pointer near the right edge so the card stays inside the frame
+        <div className="absolute pointer-events-none text-xs px-3 py-2 rounded-lg bg-black/85 text-white max-w-xs z-20"
+          style={hover.x > width - 260 ? { right: width - hover.x + 12, top: hover.y + 12 } : { left: hover.x + 12, top: hover.y + 12 }}>
+          <HoverCard target={hover.target} />
+        </div>
+      )}
+      {(current || kind === 'sankey') && (
+        <span className="absolute bottom-2 right-3 text-[10px] opacity-40 pointer-events-none">
+          {error && current ? `${error} · ` : ''}
+          {kind === 'sankey' || !useCanvas ? 'SVG' : 'Canvas'} · {view.nodes.length.toLocaleString()} nodes · {view.links.length.toLocaleString()} edges
+        </span>
+      )}
     </div>
   );
 };
@@ -0,0 +1,108 @@
+import React, { useState } from 'react';
+import { ShieldCheck, ShieldAlert } from 'lucide-react';
+import { GenerateRequest } from '../types';
+import { REDACTED_FIELD_PREFIX, RedactedField, identifierAliases, identifiersInText, redactRequest } from '../utils/redaction';
+
+export interface OutboundRequest {
+  id: string;
+  label: string;
+  build: () => GenerateRequest;
+}
+
+interface PrivacyPanelProps {
+  enabled: boolean;
+  onToggle: (enabled: boolean) => void;
+  requests: OutboundRequest[];
+}
+
+const MAPPING_PREVIEW = 200;
+
+const PrivacyPanel: React.FC<PrivacyPanelProps> = ({ enabled, onToggle, requests }) => {
+  const [selected, setSelected] = useState(requests[0]?.id ?? '');
+  const [mappingQuery, setMappingQuery] = useState('');
+
+  const current = requests.find(r => r.id === selected) ?? requests[0];
+  // Rebuilt on every render of the panel, so it always reflects the current filters, agents and toggle
+  const outbound = current ? redactRequest(current.build()) : null;
+  const inClear = outbound ? identifiersInText(`${outbound.systemInstruction ?? ''}\n${outbound.prompt}`) : [];
+
+  const mapping = identifierAliases();
+  const counts = (Object.keys(REDACTED_FIELD_PREFIX) as RedactedField[]).map(f => ({ field: f, count: mapping.filter(m => m.field === f).length }));
+  const q = mappingQuery.trim().toLowerCase();
+  const visibleMapping = (q ? mapping.filter(m => m.value.toLowerCase().includes(q) || m.alias.toLowerCase().includes(q)) : mapping).slice(0, MAPPING_PREVIEW);
+
+  return (
+    <div className="bg-[var(--mf-card)] border border-[var(--mf-border)] rounded-2xl p-6 space-y-4">
+      <div className="flex justify-between items-center">
+        <h3 className="font-bold flex items-center gap-2">
+          {enabled ? <ShieldCheck size={16} className="text-[var(--mf-accent)]"/> : <ShieldAlert size={16} className="text-red-400"/>} Privacy
+        </h3>
+        <span className="text-xs opacity-50">Aliases live in this tab only; real values are put back in displayed outputs</span>
+      </div>
+
+      <label className="flex items-center gap-2 text-sm cursor-pointer">
+        <input type="checkbox" checked={enabled} onChange={(e) => onToggle(e.target.checked)}/>
+        Pseudonymize CustomerID, SupplierID and SerNo before anything is sent to a model
+      </label>
+
+      <div className="grid grid-cols-3 gap-3">
+        {counts.map(c => (
+          <div key={c.field} className="p-3 rounded-xl border border-[var(--mf-border)] bg-[rgba(255,255,255,0.02)]">
+            <div className="text-xl font-black">{c.count.toLocaleString()}</div>
+            <div className="text-[10px] opacity-50 uppercase">{c.field} → {REDACTED_FIELD_PREFIX[c.field]}-0001…</div>
+          </div>
+        ))}
+      </div>
+
+      <div className="space-y-2">
+        <div className="flex items-center gap-2">
+          <span className="text-xs font-bold">Audit preview</span>
+          <select value={current?.id ?? ''} onChange={(e) => setSelected(e.target.value)}
+            className="text-xs p-1.5 rounded-lg bg-[rgba(0,0,0,0.2)] border border-[var(--mf-border)] text-[var(--mf-text)]">
+            {requests.map(r => <option key={r.id} value={r.id}>{r.label}</option>)}
+          </select>
+          {outbound && (
+            <span className="text-xs opacity-50 font-mono">
+              {outbound.model ?? 'default model'} · temperature {outbound.temperature} · max {outbound.maxTokens} tokens · {outbound.prompt.length.toLocaleString()} characters
+            </span>
+          )}
+          <span className={`ml-auto text-xs font-bold ${inClear.length ? 'text-red-400' : 'text-green-400'}`}>
+            {inClear.length ? `${inClear.length} identifiers in clear` : 'No identifiers in clear'}
+          </span>
+        </div>
+        {inClear.length > 0 && <div className="text-xs font-mono text-red-300 break-all">{inClear.slice(0, 20).join(', ')}{inClear.length > 20 ? ' …' : ''}</div>}
+        {outbound && (
+          <pre className="p-3 rounded-lg bg-[rgba(0,0,0,0.2)] text-xs whitespace-pre-wrap max-h-96 overflow-y-auto">
+            {outbound.systemInstruction ? `[system]\n${outbound.systemInstruction}\n\n[user]\n` : ''}{outbound.prompt}
+          </pre>
+        )}
+      </div>
+
+      <details className="text-xs">
+        <summary className="cursor-pointer opacity-70">Session mapping ({mapping.length.toLocaleString()})</summary>
+        <input value={mappingQuery} onChange={(e) => setMappingQuery(e.target.value)} placeholder="Find a value or alias..."
+          className="mt-2 w-64 text-xs p-2 rounded-lg bg-[rgba(0,0,0,0.2)] border border-[var(--mf-border)] text-[var(--mf-text)]"/>
+        <table className="w-full text-left mt-2">
+          <thead className="uppercase opacity-50 border-b border-[var(--mf-border)]">
+            <tr>
+              <th className="py-1">Field</th>
+              <th className="py-1">Alias</th>
+              <th className="py-1">Real value</th>
+            </tr>
+          </thead>
+          <tbody>
+            {visibleMapping.map(m => (
+              <tr key={m.alias} className="border-b border-[var(--mf-border)] border-opacity-10">
+                <td className="py-1 opacity-60">{m.field}</td>
+                <td className="py-1 font-mono">{m.alias}</td>
+                <td className="py-1 font-mono">{m.value}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </details>
+    </div>
+  );
+};
+
+export default PrivacyPanel;
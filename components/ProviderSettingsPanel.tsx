@@ -0,0 +1,77 @@
+import React, { useState } from 'react';
+import { Server, CheckCircle, XCircle } from 'lucide-react';
+import { ProviderId, ProviderSettings } from '../types';
+import { PROVIDERS, testProvider } from '../services/llmService';
+
+interface ProviderSettingsPanelProps {
+  settings: ProviderSettings;
+  onChange: (settings: ProviderSettings) => void;
+}
+
+const inputClass = 'w-full text-xs p-2 rounded-lg bg-[rgba(0,0,0,0.2)] border border-[var(--mf-border)] text-[var(--mf-text)]';
+
+const ProviderSettingsPanel: React.FC<ProviderSettingsPanelProps> = ({ settings, onChange }) => {
+  const [testing, setTesting] = useState<ProviderId | null>(null);
+  const [results, setResults] = useState<Partial<Record<ProviderId, { ok: boolean; message: string }>>>({});
+
+  const test = async (id: ProviderId) => {
+    setTesting(id);
+    try {
+      const reply = await testProvider(id);
+      setResults({ ...results, [id]: { ok: true, message: reply.text.slice(0, 80) } });
+    } catch (e) {
+      setResults({ ...results, [id]: { ok: false, message: e instanceof Error ? e.message : String(e) } });
+    }
+    setTesting(null);
+  };
+
+  return (
+    <div className="bg-[var(--mf-card)] border border-[var(--mf-border)] rounded-2xl p-6 space-y-4">
+      <div className="flex justify-between items-center">
+        <h3 className="font-bold flex items-center gap-2"><Server size={16} className="text-[var(--mf-accent)]"/> Model Providers</h3>
+        <span className="text-xs opacity-50">Agents without their own provider, Insight Flash, Predictive Pulse and search use the default</span>
+      </div>
+      <div className="grid grid-cols-3 gap-3">
+        {Object.values(PROVIDERS).map(p => (
+          <div key={p.id}
+            className={`p-3 rounded-xl border transition space-y-2 ${
+              settings.default_provider === p.id ? 'border-[var(--mf-accent)] bg-[rgba(255,255,255,0.05)]' : 'border-[var(--mf-border)] bg-[rgba(255,255,255,0.02)]'
+            }`}>
+            <label className="flex items-center gap-2 text-sm font-bold cursor-pointer">
+              <input type="radio" checked={settings.default_provider === p.id} onChange={() => onChange({ ...settings, default_provider: p.id })}/>
+              {p.label}
+            </label>
+            <div className="text-[10px] opacity-60">{p.isConfigured() ? `Ready · default model ${p.defaultModel()}` : 'Not configured'}</div>
+            <button onClick={() => test(p.id)} disabled={testing !== null}
+              className="text-xs font-bold px-3 py-1 rounded-md bg-[rgba(255,255,255,0.05)] hover:bg-[rgba(255,255,255,0.1)] disabled:opacity-50 transition">
+              {testing === p.id ? 'Testing…' : 'Test'}
+            </button>
+            {results[p.id] && (
+              <div className={`flex items-start gap-1 text-[10px] ${results[p.id]!.ok ? 'text-green-400' : 'text-red-400'}`}>
+                {results[p.id]!.ok ? <CheckCircle size={12}/> : <XCircle size={12}/>}
+                <span className="break-all">{results[p.id]!.message}</span>
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+      <div className="grid grid-cols-3 gap-4">
+        <label className="space-y-1 text-xs opacity-80">
+          <span>OpenAI-compatible endpoint</span>
+          <input value={settings.openai_base_url} onChange={(e) => onChange({ ...settings, openai_base_url: e.target.value })}
+            placeholder="http://localhost:11434/v1" className={`${inputClass} font-mono`}/>
+        </label>
+        <label className="space-y-1 text-xs opacity-80">
+          <span>Default model</span>
+          <input value={settings.openai_model} onChange={(e) => onChange({ ...settings, openai_model: e.target.value })} className={`${inputClass} font-mono`}/>
+        </label>
+        <label className="space-y-1 text-xs opacity-80">
+          <span>API key (optional)</span>
+          <input type="password" value={settings.openai_api_key} onChange={(e) => onChange({ ...settings, openai_api_key: e.target.value })} className={inputClass}/>
+        </label>
+      </div>
+    </div>
+  );
+};
+
+export default ProviderSettingsPanel;
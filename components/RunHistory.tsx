@@ -0,0 +1,238 @@
+import React, { useMemo, useState } from 'react';
+import { Search, RotateCw, Trash2, GitCompare, X, Square } from 'lucide-react';
+import { PipelineRun, StepStatus } from '../types';
+import { describeFilters } from '../utils/promptTemplate';
+import { diffLines } from '../utils/textDiff';
+import { checkJsonOutput } from '../utils/jsonSchema';
+import { describeTotals, runUsage, sumUsage } from '../utils/usage';
+import { restoreText, restoreValue } from '../utils/redaction';
+import StructuredOutput from './StructuredOutput';
+
+interface RunHistoryProps {
+  runs: PipelineRun[];
+  currentFingerprint: string;
+  isRunning: boolean;
+  onReplay: (run: PipelineRun) => void;
+  onDelete: (id: string) => void;
+  onStop: (runId: string) => void;
+  onStopStep: (runId: string, agentId: string) => void;
+}
+
+const STEP_STATUS_DOT: Record<StepStatus, string> = {
+  pending: 'bg-gray-500',
+  running: 'bg-yellow-500 animate-pulse',
+  completed: 'bg-green-500',
+  failed: 'bg-red-500',
+  skipped: 'bg-gray-700',
+  cancelled: 'bg-orange-500',
+};
+
+const RUN_STATUS_DOT: Record<PipelineRun['status'], string> = {
+  running: 'bg-yellow-500 animate-pulse',
+  completed: 'bg-green-500',
+  failed: 'bg-red-500',
+  cancelled: 'bg-orange-500',
+};
+
+const DIFF_ROW_TONE = {
+  same: '',
+  changed: 'bg-yellow-500/10',
+  removed: 'bg-red-500/10',
+  added: 'bg-green-500/10',
+};
+
+const agentName = (run: PipelineRun, agentId: string) => run.agents.find(a => a.id === agentId)?.name || agentId;
+
+// Aliases are numbered per dataset, so runs on other data keep the aliases they were sent with
+const keepAliases = (text: string) => text;
+const restorerFor = (run: PipelineRun, currentFingerprint: string) => run.datasetFingerprint === currentFingerprint ? restoreText : keepAliases;
+
+const runSearchText = (run: PipelineRun, currentFingerprint: string) => [
+  run.id,
+  run.status,
+  new Date(run.timestamp).toLocaleString(),
+  describeFilters(run.filters),
+  ...run.searchTerms,
+  ...run.agents.map(a => `${a.id} ${a.name} ${a.model}`),
+  ...Object.values(run.agentOutputs).map(restorerFor(run, currentFingerprint)),
+].join('\n').toLowerCase();
+
+// Typed cards once a schema agent has finished; raw text while streaming or when the output does not validate.
+// Outputs are stored with identifier aliases and shown with the real values when the run saw the loaded data.
+const AgentOutput: React.FC<{ run: PipelineRun; agentId: string; output: string; restore: boolean }> = ({ run, agentId, output, restore }) => {
+  const schema = run.agents.find(a => a.id === agentId)?.output_schema;
+  const checked = useMemo(
+    () => schema && run.steps[agentId]?.status === 'completed' ? checkJsonOutput(output, schema) : null,
+    [schema, output, run.steps, agentId]
+  );
+  if (schema && checked && !checked.errors.length) {
+    return (
+      <div className="bg-[rgba(0,0,0,0.2)] p-4 rounded-xl border border-[var(--mf-border)]">
+        <StructuredOutput value={restore ? restoreValue(checked.value) : checked.value} schema={schema} exportName={`run_${run.id}_${agentId}`}/>
+      </div>
+    );
+  }
+  return (
+    <div className="bg-[rgba(0,0,0,0.2)] p-4 rounded-xl text-sm leading-relaxed whitespace-pre-wrap font-mono border border-[var(--mf-border)]">
+      {restore ? restoreText(output) : output}
+      {run.steps[agentId]?.status === 'running' && <span className="inline-block w-2 h-4 ml-0.5 align-middle bg-[var(--mf-accent)] animate-pulse"/>}
+    </div>
+  );
+};
+
+const RunDiff: React.FC<{ left: PipelineRun; right: PipelineRun; currentFingerprint: string; onClose: () => void }> = ({ left, right, currentFingerprint, onClose }) => {
+  const agentIds = Array.from(new Set([...Object.keys(left.agentOutputs), ...Object.keys(right.agentOutputs)]));
+  return (
+    <div className="bg-[var(--mf-card)] border border-[var(--mf-border)] rounded-2xl p-6 space-y-6">
+      <div className="flex justify-between items-center">
+        <h3 className="font-bold flex items-center gap-2"><GitCompare size={16} className="text-[var(--mf-accent)]"/> Compare Runs</h3>
+        <button onClick={onClose} className="opacity-60 hover:opacity-100"><X size={16}/></button>
+      </div>
+      <div className="grid grid-cols-2 gap-4 text-xs opacity-70">
+        {[left, right].map(r => (
+          <div key={r.id} className="space-y-1">
+            <div className="font-mono">Run {r.id} · {new Date(r.timestamp).toLocaleString()}</div>
+            <div className="whitespace-pre-wrap">{describeFilters(r.filters)}</div>
+            <div className="font-mono">{r.rowCount.toLocaleString()} rows · data {r.datasetFingerprint}</div>
+          </div>
+        ))}
+      </div>
+      {agentIds.map(agentId => {
+        const rows = diffLines(
+          restorerFor(left, currentFingerprint)(left.agentOutputs[agentId] ?? ''),
+          restorerFor(right, currentFingerprint)(right.agentOutputs[agentId] ?? '')
+        );
+        const changed = rows.filter(r => r.kind !== 'same').length;
+        return (
+          <div key={agentId} className="space-y-2">
+            <h4 className="text-sm font-bold text-[var(--mf-accent)] uppercase tracking-wider">
+              {agentName(right, agentId)} <span className="text-xs opacity-50 normal-case">{changed ? `${changed} changed lines` : 'identical'}</span>
+            </h4>
+            <div className="grid grid-cols-2 text-xs font-mono border border-[var(--mf-border)] rounded-xl overflow-hidden max-h-96 overflow-y-auto">
+              {rows.map((row, i) => (
+                <React.Fragment key={i}>
+                  <div className={`px-3 py-0.5 whitespace-pre-wrap border-r border-[var(--mf-border)] ${row.left === null ? '' : DIFF_ROW_TONE[row.kind]}`}>{row.left ?? ''}</div>
+                  <div className={`px-3 py-0.5 whitespace-pre-wrap ${row.right === null ? '' : DIFF_ROW_TONE[row.kind]}`}>{row.right ?? ''}</div>
+                </React.Fragment>
+              ))}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+const RunHistory: React.FC<RunHistoryProps> = ({ runs, currentFingerprint, isRunning, onReplay, onDelete, onStop, onStopStep }) => {
+  const [query, setQuery] = useState('');
+  const [compare, setCompare] = useState<string[]>([]);
+
+  const visible = useMemo(() => {
+    const q = query.trim().toLowerCase();
+    return q ? runs.filter(r => runSearchText(r, currentFingerprint).includes(q)) : runs;
+  }, [runs, query, currentFingerprint]);
+
+  const toggleCompare = (id: string) =>
+    setCompare(compare.includes(id) ? compare.filter(c => c !== id) : [...compare, id].slice(-2));
+
+  const compared = compare.map(id => runs.find(r => r.id === id)).filter((r): r is PipelineRun => !!r);
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center gap-4">
+        <div className="relative flex-1">
+          <Search className="absolute left-3 top-2.5 opacity-40" size={16}/>
+          <input value={query} onChange={(e) => setQuery(e.target.value)} placeholder="Search runs by output, agent, filter or date..."
+            className="w-full pl-9 pr-4 py-2 rounded-xl bg-[var(--mf-card)] border border-[var(--mf-border)] text-sm focus:ring-2 focus:ring-[var(--mf-accent)] outline-none"/>
+        </div>
+        <span className="text-xs opacity-50">{visible.length} of {runs.length} saved runs · select two to compare</span>
+      </div>
+
+      {compared.length === 2 && (
+        // Older run on the left
+        <RunDiff
+          left={compared[0].timestamp <= compared[1].timestamp ? compared[0] : compared[1]}
+          right={compared[0].timestamp <= compared[1].timestamp ? compared[1] : compared[0]}
+          currentFingerprint={currentFingerprint}
+          onClose={() => setCompare([])}
+        />
+      )}
+
+      <div className="grid grid-cols-1 gap-6">
+        {visible.map(run => (
+          <div key={run.id} className="bg-[var(--mf-card)] border border-[var(--mf-border)] rounded-2xl overflow-hidden">
+            <div className="p-4 border-b border-[var(--mf-border)] flex justify-between items-center bg-[rgba(0,0,0,0.1)]">
+              <div className="flex items-center gap-3">
+                <div className={`w-3 h-3 rounded-full ${RUN_STATUS_DOT[run.status]}`}/>
+                <span className="font-mono text-xs opacity-70">Run ID: {run.id}</span>
+                {run.replayOf && <span className="text-xs opacity-50">replay of {run.replayOf}</span>}
+                <span className={`text-[10px] px-2 py-0.5 rounded-full border border-[var(--mf-border)] ${run.datasetFingerprint === currentFingerprint ? 'opacity-50' : 'text-yellow-400'}`}
+                  title={`Dataset fingerprint ${run.datasetFingerprint}${run.datasetFingerprint === currentFingerprint ? '' : ' · identifiers shown as the aliases sent'}`}>
+                  {run.datasetFingerprint === currentFingerprint ? 'current data' : 'different data'} · {run.rowCount.toLocaleString()} rows
+                </span>
+              </div>
+              <div className="flex items-center gap-3">
+                {runUsage(run).calls > 0 && <span className="text-xs opacity-50 font-mono">{describeTotals(runUsage(run))}</span>}
+                <span className="text-xs opacity-50">{new Date(run.timestamp).toLocaleString()}</span>
+                {run.status === 'running' && (
+                  <button onClick={() => onStop(run.id)}
+                    className="flex items-center gap-1 text-xs font-bold px-2 py-1 rounded-md bg-red-500 text-white hover:opacity-90">
+                    <Square size={10}/> Stop
+                  </button>
+                )}
+                <label className="flex items-center gap-1 text-xs opacity-70 cursor-pointer">
+                  <input type="checkbox" checked={compare.includes(run.id)} onChange={() => toggleCompare(run.id)}/> Compare
+                </label>
+                <button onClick={() => onReplay(run)} disabled={isRunning} title="Re-run these agents and filters on the current data"
+                  className="flex items-center gap-1 text-xs opacity-70 hover:opacity-100 disabled:opacity-30">
+                  <RotateCw size={12}/> Replay
+                </button>
+                <button onClick={() => { onDelete(run.id); setCompare(compare.filter(c => c !== run.id)); }} disabled={run.status === 'running'}
+                  className="opacity-50 hover:opacity-100 hover:text-red-400 disabled:opacity-20"><Trash2 size={14}/></button>
+              </div>
+            </div>
+            <div className="p-6 space-y-6">
+              {run.error && <div className="p-4 bg-red-900/20 text-red-200 rounded-lg text-sm">{run.error}</div>}
+              <div className="flex flex-wrap gap-2">
+                {Object.entries(run.steps).map(([agentId, step]) => (
+                  <span key={agentId} title={step.error ?? step.reason}
+                    className={`flex items-center gap-2 text-xs px-3 py-1 rounded-full border border-[var(--mf-border)] ${step.status === 'skipped' ? 'opacity-50' : ''}`}>
+                    <span className={`w-2 h-2 rounded-full ${STEP_STATUS_DOT[step.status]}`}/>
+                    {agentName(run, agentId)}
+                    <span className="opacity-60">{step.status}{step.attempts > 1 ? ` · try ${step.attempts}` : ''}</span>
+                    {step.status === 'running' && (
+                      <button onClick={() => onStopStep(run.id, agentId)} title="Stop this agent" className="opacity-60 hover:opacity-100 hover:text-red-400">
+                        <X size={12}/>
+                      </button>
+                    )}
+                  </span>
+                ))}
+              </div>
+              {Object.entries(run.agentOutputs).map(([agentId, output]) => (
+                <div key={agentId} className="space-y-2">
+                  <h4 className="text-sm font-bold text-[var(--mf-accent)] uppercase tracking-wider">
+                    {agentName(run, agentId)}
+                    {run.steps[agentId]?.status === 'cancelled' && <span className="ml-2 text-xs text-orange-400 normal-case">partial · stopped</span>}
+                    {run.steps[agentId]?.repaired && <span className="ml-2 text-xs opacity-50 normal-case">repaired to match schema</span>}
+                    {run.steps[agentId]?.usage?.length ? (
+                      <span className="ml-2 text-xs opacity-50 normal-case font-normal tracking-normal font-mono">{describeTotals(sumUsage(run.steps[agentId].usage!))}</span>
+                    ) : null}
+                  </h4>
+                  <AgentOutput run={run} agentId={agentId} output={output} restore={run.datasetFingerprint === currentFingerprint}/>
+                  {run.prompts[agentId] && (
+                    <details className="text-xs opacity-70">
+                      <summary className="cursor-pointer">Prompt sent</summary>
+                      <pre className="mt-2 p-3 rounded-lg bg-[rgba(0,0,0,0.2)] whitespace-pre-wrap max-h-64 overflow-y-auto">{run.prompts[agentId]}</pre>
+                    </details>
+                  )}
+                </div>
+              ))}
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default RunHistory;
@@ -0,0 +1,96 @@
+import React from 'react';
+import { Download } from 'lucide-react';
+import { JsonSchema } from '../types';
+import { downloadBlob } from '../utils/dataFormats';
+
+interface StructuredOutputProps {
+  value: unknown;
+  schema: JsonSchema;
+  exportName: string;
+}
+
+const SEVERITY_TONE: Record<string, string> = {
+  high: 'bg-red-500/20 text-red-300',
+  medium: 'bg-yellow-500/20 text-yellow-300',
+  low: 'bg-blue-500/20 text-blue-300',
+};
+
+const humanize = (key: string) => key.replace(/[_-]+/g, ' ').replace(/\b\w/g, c => c.toUpperCase());
+
+const Scalar: React.FC<{ value: unknown; schema?: JsonSchema }> = ({ value, schema }) => {
+  if (schema?.enum && typeof value === 'string') {
+    return <span className={`text-[10px] font-bold uppercase px-2 py-0.5 rounded-full ${SEVERITY_TONE[value] ?? 'bg-[rgba(255,255,255,0.08)]'}`}>{value}</span>;
+  }
+  if (value !== null && typeof value === 'object') {
+    return <pre className="whitespace-pre-wrap font-mono text-xs opacity-80">{JSON.stringify(value, null, 2)}</pre>;
+  }
+  return <span>{String(value ?? '—')}</span>;
+};
+
+// Title is the `title`/`name` field (or the first string); enum fields become badges, the rest label/value rows
+const ObjectCard: React.FC<{ value: Record<string, unknown>; schema?: JsonSchema }> = ({ value, schema }) => {
+  const props = schema?.properties ?? {};
+  const keys = Object.keys(value);
+  const titleKey = keys.find(k => k === 'title' || k === 'name') ?? keys.find(k => typeof value[k] === 'string' && !props[k]?.enum);
+  const badges = keys.filter(k => props[k]?.enum);
+  const rest = keys.filter(k => k !== titleKey && !badges.includes(k));
+  return (
+    <div className="p-4 rounded-xl border border-[var(--mf-border)] bg-[rgba(255,255,255,0.02)] space-y-2">
+      <div className="flex items-start justify-between gap-2">
+        {titleKey && <div className="font-bold text-sm">{String(value[titleKey])}</div>}
+        <div className="flex gap-1">{badges.map(k => <Scalar key={k} value={value[k]} schema={props[k]}/>)}</div>
+      </div>
+      {rest.map(k => (
+        <div key={k} className="text-xs">
+          <span className="opacity-50 uppercase text-[10px] mr-2">{humanize(k)}</span>
+          <Scalar value={value[k]} schema={props[k]}/>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+const Section: React.FC<{ value: unknown; schema?: JsonSchema }> = ({ value, schema }) => {
+  if (Array.isArray(value)) {
+    if (!value.length) return <div className="text-xs opacity-50">None</div>;
+    if (value.every(v => v && typeof v === 'object' && !Array.isArray(v))) {
+      return (
+        <div className="grid grid-cols-2 gap-3">
+          {value.map((v, i) => <ObjectCard key={i} value={v as Record<string, unknown>} schema={schema?.items}/>)}
+        </div>
+      );
+    }
+    return (
+      <ul className="list-disc pl-5 space-y-1 text-sm">
+        {value.map((v, i) => <li key={i}><Scalar value={v} schema={schema?.items}/></li>)}
+      </ul>
+    );
+  }
+  if (value && typeof value === 'object') return <ObjectCard value={value as Record<string, unknown>} schema={schema}/>;
+  return <div className="text-sm"><Scalar value={value} schema={schema}/></div>;
+};
+
+/** Schema-validated agent output rendered as cards: one section per top-level field. */
+const StructuredOutput: React.FC<StructuredOutputProps> = ({ value, schema, exportName }) => {
+  const fields = value && typeof value === 'object' && !Array.isArray(value)
+    ? Object.entries(value as Record<string, unknown>)
+    : [['result', value] as [string, unknown]];
+  const fieldSchema = (key: string) => schema.type === 'object' ? schema.properties?.[key] : schema;
+
+  return (
+    <div className="space-y-4">
+      {fields.map(([key, v]) => (
+        <div key={key} className="space-y-2">
+          <h5 className="text-xs font-bold uppercase opacity-60">{humanize(key)}{Array.isArray(v) ? ` · ${v.length}` : ''}</h5>
+          <Section value={v} schema={fieldSchema(key)}/>
+        </div>
+      ))}
+      <button onClick={() => downloadBlob(JSON.stringify(value, null, 2), `${exportName}.json`, 'application/json')}
+        className="flex items-center gap-1 text-xs opacity-60 hover:opacity-100">
+        <Download size={12}/> Export JSON
+      </button>
+    </div>
+  );
+};
+
+export default StructuredOutput;
@@ -0,0 +1,242 @@
+import React, { useMemo, useState } from 'react';
+import { Route, Siren, Download, ChevronDown, ChevronRight, ArrowLeft } from 'lucide-react';
+import { MedFlowRow, PainterStyle } from '../types';
+import {
+  TraceField, TRACE_FIELD_LABELS, traceForward, traceBackward, buildRecallHighlight, recallNotificationCSV
+} from '../utils/traceability';
+import { downloadBlob } from '../utils/dataFormats';
+import NetworkGraph from './NetworkGraph';
+
+interface TraceabilityViewProps {
+  data: MedFlowRow[];
+  style: PainterStyle;
+  maxNodes: number;
+}
+
+const SUGGESTION_LIMIT = 500;
+
+// Serials and UDIs name single units; a recall is issued on a lot or a model
+const RECALL_FIELDS: TraceField[] = ['LotNO', 'Model'];
+
+const TraceabilityView: React.FC<TraceabilityViewProps> = ({ data, style, maxNodes }) => {
+  const [field, setField] = useState<TraceField>('LotNO');
+  const [input, setInput] = useState('');
+  const [query, setQuery] = useState<{ field: TraceField; value: string } | null>(null);
+  const [recallMode, setRecallMode] = useState(false);
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const [backwardCustomer, setBackwardCustomer] = useState<string | null>(null);
+
+  const suggestions = useMemo(
+    () => Array.from(new Set(data.map(r => r[field]).filter(Boolean))).slice(0, SUGGESTION_LIMIT),
+    [data, field]
+  );
+
+  const forward = useMemo(() => query ? traceForward(data, query.field, query.value) : [], [data, query]);
+  const matchedRows = useMemo(() => forward.flatMap(g => g.rows), [forward]);
+
+  // Backward trace stays on the same device(s) as the forward query
+  const backward = useMemo(() => {
+    if (!backwardCustomer) return [];
+    const udis = new Set(matchedRows.map(r => r.UDID));
+    return traceBackward(data, backwardCustomer, r => udis.has(r.UDID));
+  }, [data, backwardCustomer, matchedRows]);
+
+  const highlight = useMemo(() => recallMode && matchedRows.length ? buildRecallHighlight(matchedRows) : undefined, [recallMode, matchedRows]);
+
+  // Context for the recall graph: every shipment touching an affected supplier or customer
+  const recallGraphData = useMemo(() => {
+    if (!highlight) return [];
+    return data.filter(r => highlight.nodes.has(`S:${r.SupplierID}`) || highlight.nodes.has(`U:${r.CustomerID}`));
+  }, [data, highlight]);
+
+  const runTrace = () => {
+    setQuery(input.trim() ? { field, value: input.trim() } : null);
+    setExpanded(null);
+    setBackwardCustomer(null);
+  };
+
+  // A serial or UDI trace cannot carry over into a recall, so it is cleared along with the field
+  const toggleRecallMode = () => {
+    setRecallMode(!recallMode);
+    if (recallMode) return;
+    if (!RECALL_FIELDS.includes(field)) setField('LotNO');
+    if (query && !RECALL_FIELDS.includes(query.field)) {
+      setQuery(null);
+      setExpanded(null);
+      setBackwardCustomer(null);
+    }
+  };
+
+  const exportNotifications = (customer?: string) => {
+    const groups = customer ? forward.filter(g => g.key === customer) : forward;
+    const name = `recall_${query?.field}_${query?.value}${customer ? `_${customer}` : ''}.csv`;
+    downloadBlob('\uFEFF' + recallNotificationCSV(groups), name, 'text/csv;charset=utf-8');
+  };
+
+  const affectedSuppliers = new Set(matchedRows.map(r => r.SupplierID)).size;
+  const affectedUnits = matchedRows.reduce((s, r) => s + r.Number, 0);
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-[var(--mf-card)] p-6 rounded-2xl border border-[var(--mf-border)] space-y-4">
+        <div className="flex justify-between items-center">
+          <div>
+            <h2 className="text-xl font-bold mb-1 flex items-center gap-2"><Route size={18} className="text-[var(--mf-accent)]"/> Traceability</h2>
+            <p className="text-sm opacity-60">Trace a lot, serial, UDI or model to every customer that received it, across all loaded data.</p>
+          </div>
+          <button onClick={toggleRecallMode}
+            className={`px-4 py-2 rounded-xl font-bold text-sm flex items-center gap-2 transition ${
+              recallMode ? 'bg-red-500 text-white' : 'bg-[rgba(255,255,255,0.05)] hover:bg-[rgba(255,255,255,0.1)]'
+            }`}>
+            <Siren size={16}/> {recallMode ? 'Recall Simulation On' : 'Simulate Recall'}
+          </button>
+        </div>
+        <div className="flex gap-2">
+          <select value={field} onChange={(e) => setField(e.target.value as TraceField)}
+            className="text-sm p-2 rounded-lg bg-[rgba(0,0,0,0.2)] border border-[var(--mf-border)] text-[var(--mf-text)]">
+            {(Object.keys(TRACE_FIELD_LABELS) as TraceField[])
+              .filter(f => !recallMode || RECALL_FIELDS.includes(f))
+              .map(f => <option key={f} value={f}>{TRACE_FIELD_LABELS[f]}</option>)}
+          </select>
+          <input list="trace-suggestions" value={input} onChange={(e) => setInput(e.target.value)}
+            onKeyDown={(e) => { if (e.key === 'Enter') runTrace(); }}
+            placeholder={`Enter ${TRACE_FIELD_LABELS[field].toLowerCase()}...`}
+            className="flex-1 px-4 py-2 rounded-lg bg-[rgba(0,0,0,0.2)] border border-[var(--mf-border)] text-sm font-mono focus:ring-2 focus:ring-[var(--mf-accent)] outline-none"/>
+          <datalist id="trace-suggestions">
+            {suggestions.map(v => <option key={v} value={v}/>)}
+          </datalist>
+          <button onClick={runTrace}
+            className="px-6 py-2 bg-[var(--mf-accent)] text-black font-bold rounded-lg hover:opacity-90 transition">
+            Trace
+          </button>
+        </div>
+      </div>
+
+      {query && (
+        <div className="grid grid-cols-4 gap-4">
+          {[
+            { label: 'Customers', val: forward.length },
+            { label: 'Suppliers', val: affectedSuppliers },
+            { label: 'Shipments', val: matchedRows.length },
+            { label: 'Units', val: affectedUnits.toLocaleString() },
+          ].map(k => (
+            <div key={k.label} className="bg-[var(--mf-card)] border border-[var(--mf-border)] p-5 rounded-2xl">
+              <span className="text-sm opacity-60 font-medium">{k.label}</span>
+              <div className="text-3xl font-black">{k.val}</div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {query && !forward.length && (
+        <div className="p-4 bg-[var(--mf-card)] border border-[var(--mf-border)] rounded-xl text-sm opacity-70">
+          No shipments found for {TRACE_FIELD_LABELS[query.field]} "{query.value}".
+        </div>
+      )}
+
+      {recallMode && highlight && (
+        <div className="space-y-2">
+          <div className="flex justify-between items-center">
+            <h3 className="font-bold">Affected Supply Paths</h3>
+            <span className="text-xs opacity-50">Highlighted: supplier → category → customer paths carrying the recalled items</span>
+          </div>
+          <NetworkGraph data={recallGraphData} style={style} maxNodes={maxNodes} highlight={highlight} />
+        </div>
+      )}
+
+      {forward.length > 0 && !backwardCustomer && (
+        <div className="bg-[var(--mf-card)] border border-[var(--mf-border)] rounded-2xl p-6">
+          <div className="flex justify-between items-center mb-4">
+            <h3 className="font-bold">{recallMode ? 'Notification List' : 'Forward Trace'} · {TRACE_FIELD_LABELS[query!.field]} {query!.value}</h3>
+            {recallMode && (
+              <button onClick={() => exportNotifications()}
+                className="flex items-center gap-1 text-xs font-bold px-3 py-2 rounded-lg bg-[var(--mf-accent)] text-black hover:opacity-90 transition">
+                <Download size={12}/> Export All
+              </button>
+            )}
+          </div>
+          <table className="w-full text-xs text-left">
+            <thead className="uppercase opacity-50 border-b border-[var(--mf-border)]">
+              <tr>
+                <th className="py-2">Customer</th>
+                <th className="py-2 text-right">Shipments</th>
+                <th className="py-2 text-right">Units</th>
+                <th className="py-2">First</th>
+                <th className="py-2">Last</th>
+                <th className="py-2"></th>
+              </tr>
+            </thead>
+            <tbody>
+              {forward.map(g => (
+                <React.Fragment key={g.key}>
+                  <tr className="border-b border-[var(--mf-border)] border-opacity-10">
+                    <td className="py-2 font-mono">
+                      <button onClick={() => setExpanded(expanded === g.key ? null : g.key)} className="flex items-center gap-1">
+                        {expanded === g.key ? <ChevronDown size={12}/> : <ChevronRight size={12}/>} {g.key}
+                      </button>
+                    </td>
+                    <td className="py-2 text-right font-mono">{g.rows.length}</td>
+                    <td className="py-2 text-right font-mono">{g.units}</td>
+                    <td className="py-2">{g.firstDate ?? '—'}</td>
+                    <td className="py-2">{g.lastDate ?? '—'}</td>
+                    <td className="py-2 text-right space-x-3">
+                      <button onClick={() => setBackwardCustomer(g.key)} className="opacity-60 hover:opacity-100">Trace back</button>
+                      {recallMode && (
+                        <button onClick={() => exportNotifications(g.key)} className="opacity-60 hover:opacity-100">Export</button>
+                      )}
+                    </td>
+                  </tr>
+                  {expanded === g.key && g.rows.map((r, i) => (
+                    <tr key={i} className="opacity-70">
+                      <td className="py-1 pl-6">{r.Deliverdate}</td>
+                      <td className="py-1 text-right font-mono">{r.SupplierID}</td>
+                      <td className="py-1 text-right font-mono">{r.Number}</td>
+                      <td className="py-1" colSpan={2}>{r.DeviceNAME} · {r.Model}</td>
+                      <td className="py-1 font-mono">lot {r.LotNO || '—'} · sn {r.SerNo || '—'}</td>
+                    </tr>
+                  ))}
+                </React.Fragment>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {backwardCustomer && (
+        <div className="bg-[var(--mf-card)] border border-[var(--mf-border)] rounded-2xl p-6">
+          <div className="flex items-center gap-3 mb-4">
+            <button onClick={() => setBackwardCustomer(null)} className="opacity-60 hover:opacity-100"><ArrowLeft size={16}/></button>
+            <h3 className="font-bold">Backward Trace · {backwardCustomer}</h3>
+            <span className="text-xs opacity-50">All sources of the same device(s) for this customer</span>
+          </div>
+          <table className="w-full text-xs text-left">
+            <thead className="uppercase opacity-50 border-b border-[var(--mf-border)]">
+              <tr>
+                <th className="py-2">Supplier · Lot</th>
+                <th className="py-2">Device</th>
+                <th className="py-2 text-right">Shipments</th>
+                <th className="py-2 text-right">Units</th>
+                <th className="py-2">First</th>
+                <th className="py-2">Last</th>
+              </tr>
+            </thead>
+            <tbody>
+              {backward.map(g => (
+                <tr key={g.key} className="border-b border-[var(--mf-border)] border-opacity-10">
+                  <td className="py-2 font-mono">{g.key}</td>
+                  <td className="py-2">{Array.from(new Set(g.rows.map(r => r.DeviceNAME))).join(' / ')}</td>
+                  <td className="py-2 text-right font-mono">{g.rows.length}</td>
+                  <td className="py-2 text-right font-mono">{g.units}</td>
+                  <td className="py-2">{g.firstDate ?? '—'}</td>
+                  <td className="py-2">{g.lastDate ?? '—'}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TraceabilityView;
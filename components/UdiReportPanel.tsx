@@ -0,0 +1,73 @@
+import React, { useState } from 'react';
+import { Barcode } from 'lucide-react';
+import { UdiIssueKind } from '../types';
+import { UdiReport, UDI_ISSUE_LABELS } from '../utils/udi';
+
+interface UdiReportPanelProps {
+  report: UdiReport;
+}
+
+const ISSUE_PREVIEW = 100;
+
+const UdiReportPanel: React.FC<UdiReportPanelProps> = ({ report }) => {
+  const [kindFilter, setKindFilter] = useState<UdiIssueKind | null>(null);
+
+  const counts = report.issues.reduce((acc, i) => {
+    acc[i.kind] = (acc[i.kind] || 0) + 1;
+    return acc;
+  }, {} as Partial<Record<UdiIssueKind, number>>);
+  const visible = kindFilter ? report.issues.filter(i => i.kind === kindFilter) : report.issues;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex justify-between items-center">
+        <h3 className="font-bold flex items-center gap-2"><Barcode size={16} className="text-[var(--mf-accent)]"/> UDI Validation</h3>
+        <span className="text-xs opacity-50">
+          {report.valid.toLocaleString()} of {report.checked.toLocaleString()} UDIs valid · {report.missing.toLocaleString()} missing
+        </span>
+      </div>
+
+      <div className="grid grid-cols-5 gap-3">
+        {(Object.keys(UDI_ISSUE_LABELS) as UdiIssueKind[]).map(kind => (
+          <button key={kind} onClick={() => setKindFilter(kindFilter === kind ? null : kind)}
+            className={`p-3 text-left rounded-xl border transition ${
+              kindFilter === kind ? 'border-[var(--mf-accent)] bg-[rgba(255,255,255,0.05)]' : 'border-[var(--mf-border)] bg-[rgba(255,255,255,0.02)]'
+            }`}>
+            <div className="text-xl font-black">{counts[kind] || 0}</div>
+            <div className="text-[10px] opacity-50 uppercase">{UDI_ISSUE_LABELS[kind]}</div>
+          </button>
+        ))}
+      </div>
+
+      {visible.length > 0 && (
+        <div className="overflow-x-auto max-h-80 overflow-y-auto">
+          <table className="w-full text-xs text-left">
+            <thead className="uppercase opacity-50 border-b border-[var(--mf-border)]">
+              <tr>
+                <th className="py-2">Issue</th>
+                <th className="py-2">UDID</th>
+                <th className="py-2">Lot</th>
+                <th className="py-2">Serial</th>
+                <th className="py-2">Detail</th>
+              </tr>
+            </thead>
+            <tbody>
+              {visible.slice(0, ISSUE_PREVIEW).map((issue, i) => (
+                <tr key={i} className="border-b border-[var(--mf-border)] border-opacity-10">
+                  <td className="py-2">{UDI_ISSUE_LABELS[issue.kind]}</td>
+                  <td className="py-2 font-mono">{issue.row.UDID}</td>
+                  <td className="py-2 font-mono">{issue.row.LotNO}</td>
+                  <td className="py-2 font-mono">{issue.row.SerNo}</td>
+                  <td className="py-2 opacity-70">{issue.message}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          {visible.length > ISSUE_PREVIEW && <p className="text-xs opacity-50 mt-2">Showing first {ISSUE_PREVIEW} of {visible.length.toLocaleString()} issues.</p>}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default UdiReportPanel;
@@ -0,0 +1,216 @@
+import React, { useMemo, useState } from 'react';
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts';
+import { Coins, Trash2, Plus } from 'lucide-react';
+import { PainterStyle, ProviderId, UsageRecord, UsageSettings } from '../types';
+import { budgetStatus, formatCost, parsePriceKey, priceKey, sumUsage, usageByAgent, usageByDay } from '../utils/usage';
+import { PROVIDERS } from '../services/llmService';
+
+interface UsageDashboardProps {
+  records: UsageRecord[];
+  settings: UsageSettings;
+  style: PainterStyle;
+  onSettingsChange: (settings: UsageSettings) => void;
+  onClear: () => void;
+}
+
+const inputClass = 'text-xs p-2 rounded-lg bg-[rgba(0,0,0,0.2)] border border-[var(--mf-border)] text-[var(--mf-text)]';
+
+const UsageDashboard: React.FC<UsageDashboardProps> = ({ records, settings, style, onSettingsChange, onClear }) => {
+  const [newModel, setNewModel] = useState('');
+  const [newProvider, setNewProvider] = useState<ProviderId>('gemini');
+
+  const totals = useMemo(() => sumUsage(records), [records]);
+  const byDay = useMemo(() => usageByDay(records), [records]);
+  const byAgent = useMemo(() => usageByAgent(records), [records]);
+  const budget = budgetStatus(records, settings);
+  const unpricedModels = useMemo(
+    () => Array.from(new Set(records.filter(r => r.unpriced).map(r => priceKey(r.provider, r.model)).filter(key => !settings.prices[key]))),
+    [records, settings.prices]
+  );
+
+  const setPrice = (key: string, side: 'input' | 'output', value: number) => onSettingsChange({
+    ...settings,
+    prices: { ...settings.prices, [key]: { ...settings.prices[key], [side]: Math.max(0, value) } },
+  });
+
+  const addModel = (key: string) => {
+    if (!parsePriceKey(key).model || settings.prices[key]) return;
+    onSettingsChange({ ...settings, prices: { ...settings.prices, [key]: { input: 0, output: 0 } } });
+    setNewModel('');
+  };
+
+  const removeModel = (key: string) => {
+    const { [key]: _, ...prices } = settings.prices;
+    onSettingsChange({ ...settings, prices });
+  };
+
+  const describeKey = (key: string) => {
+    const { provider, model } = parsePriceKey(key);
+    return `${PROVIDERS[provider].label} · ${model}`;
+  };
+
+  const tiles = [
+    { label: 'Calls', val: totals.calls.toLocaleString() },
+    { label: 'Tokens', val: (totals.prompt_tokens + totals.response_tokens).toLocaleString(), sub: `${totals.prompt_tokens.toLocaleString()} in · ${totals.response_tokens.toLocaleString()} out` },
+    { label: 'Estimated Cost', val: formatCost(totals.cost), sub: totals.unpriced ? `${totals.unpriced} unpriced calls` : undefined },
+    { label: 'Avg Latency', val: totals.calls ? `${(totals.latency_ms / totals.calls / 1000).toFixed(1)}s` : '—' },
+  ];
+
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-4 gap-4">
+        {tiles.map(k => (
+          <div key={k.label} className="bg-[var(--mf-card)] border border-[var(--mf-border)] p-5 rounded-2xl">
+            <span className="text-sm opacity-60 font-medium">{k.label}</span>
+            <div className="text-3xl font-black">{k.val}</div>
+            {k.sub && <div className="text-xs opacity-50 mt-1">{k.sub}</div>}
+          </div>
+        ))}
+      </div>
+
+      <div className="bg-[var(--mf-card)] border border-[var(--mf-border)] rounded-2xl p-6 space-y-4">
+        <div className="flex justify-between items-center">
+          <h3 className="font-bold flex items-center gap-2"><Coins size={16} className="text-[var(--mf-accent)]"/> Budget</h3>
+          <span className="text-xs opacity-50">Once the cap is reached every model call is refused until the next {settings.budget_period}</span>
+        </div>
+        <div className="flex items-center gap-3 text-xs">
+          <label className="flex items-center gap-2">
+            Cap (USD)
+            <input type="number" min={0} step={0.5} placeholder="No cap" value={settings.budget_usd ?? ''}
+              onChange={(e) => onSettingsChange({ ...settings, budget_usd: e.target.value === '' ? null : Math.max(0, Number(e.target.value)) })}
+              className={`${inputClass} w-28`}/>
+          </label>
+          <label className="flex items-center gap-2">
+            per
+            <select value={settings.budget_period}
+              onChange={(e) => onSettingsChange({ ...settings, budget_period: e.target.value as UsageSettings['budget_period'] })}
+              className={inputClass}>
+              <option value="day">day</option>
+              <option value="month">month</option>
+            </select>
+          </label>
+          {budget && (
+            <span className={`ml-auto font-mono ${budget.exceeded ? 'text-red-400 font-bold' : 'opacity-70'}`}>
+              {formatCost(budget.spent)} of {formatCost(budget.cap)} {budget.exceeded ? '· runs blocked' : ''}
+            </span>
+          )}
+        </div>
+        {budget && (
+          <div className="h-2 rounded-full bg-[rgba(255,255,255,0.05)] overflow-hidden">
+            <div className={`h-full ${budget.exceeded ? 'bg-red-500' : 'bg-[var(--mf-accent)]'}`}
+              style={{ width: `${budget.cap ? Math.min(100, budget.spent / budget.cap * 100) : 100}%` }}/>
+          </div>
+        )}
+      </div>
+
+      <div className="grid grid-cols-2 gap-6">
+        <div className="bg-[var(--mf-card)] border border-[var(--mf-border)] p-6 rounded-2xl h-[360px]">
+          <h3 className="font-bold mb-4">Cost per Day</h3>
+          {byDay.length ? (
+            <ResponsiveContainer width="100%" height="85%">
+              <BarChart data={byDay.map(d => ({ day: d.key, cost: Number(d.cost.toFixed(4)) }))}>
+                <CartesianGrid strokeDasharray="3 3" strokeOpacity={0.1} />
+                <XAxis dataKey="day" tick={{fill: 'var(--mf-text)', fontSize: 10}} />
+                <YAxis tick={{fill: 'var(--mf-text)', fontSize: 10}} />
+                <Tooltip contentStyle={{backgroundColor: 'var(--mf-card)', borderColor: 'var(--mf-border)', color: 'var(--mf-text)'}}
+                  formatter={(value) => [`$${value}`, 'Cost']}/>
+                <Bar dataKey="cost" fill={style.palette[1]} radius={[4,4,0,0]} />
+              </BarChart>
+            </ResponsiveContainer>
+          ) : (
+            <p className="text-sm opacity-50">No model calls recorded yet.</p>
+          )}
+        </div>
+
+        <div className="bg-[var(--mf-card)] border border-[var(--mf-border)] p-6 rounded-2xl h-[360px] overflow-y-auto">
+          <h3 className="font-bold mb-4">Per Agent</h3>
+          <table className="w-full text-xs text-left">
+            <thead className="uppercase opacity-50 border-b border-[var(--mf-border)]">
+              <tr>
+                <th className="py-2">Agent / Source</th>
+                <th className="py-2 text-right">Calls</th>
+                <th className="py-2 text-right">Tokens in</th>
+                <th className="py-2 text-right">Tokens out</th>
+                <th className="py-2 text-right">Avg latency</th>
+                <th className="py-2 text-right">Cost</th>
+              </tr>
+            </thead>
+            <tbody>
+              {byAgent.map(a => (
+                <tr key={a.key} className="border-b border-[var(--mf-border)] border-opacity-10">
+                  <td className="py-2 font-mono">{a.key}</td>
+                  <td className="py-2 text-right font-mono">{a.calls}</td>
+                  <td className="py-2 text-right font-mono">{a.prompt_tokens.toLocaleString()}</td>
+                  <td className="py-2 text-right font-mono">{a.response_tokens.toLocaleString()}</td>
+                  <td className="py-2 text-right font-mono">{(a.latency_ms / a.calls / 1000).toFixed(1)}s</td>
+                  <td className="py-2 text-right font-mono">{formatCost(a.cost)}{a.unpriced ? '*' : ''}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          {totals.unpriced > 0 && <p className="text-xs opacity-50 mt-2">* includes calls to models without a price, counted at $0.</p>}
+          {totals.estimated > 0 && <p className="text-xs opacity-50 mt-1">{totals.estimated} of {totals.calls} calls reported no token counts; they were estimated from text length.</p>}
+        </div>
+      </div>
+
+      <div className="bg-[var(--mf-card)] border border-[var(--mf-border)] rounded-2xl p-6 space-y-4">
+        <div className="flex justify-between items-center">
+          <h3 className="font-bold">Price Table</h3>
+          <span className="text-xs opacity-50">USD per million tokens · applies to calls made after a change</span>
+        </div>
+        <table className="w-full text-xs text-left">
+          <thead className="uppercase opacity-50 border-b border-[var(--mf-border)]">
+            <tr>
+              <th className="py-2">Provider · Model</th>
+              <th className="py-2">Input</th>
+              <th className="py-2">Output</th>
+              <th className="py-2"></th>
+            </tr>
+          </thead>
+          <tbody>
+            {Object.entries(settings.prices).map(([key, price]) => (
+              <tr key={key} className="border-b border-[var(--mf-border)] border-opacity-10">
+                <td className="py-2 font-mono">{describeKey(key)}</td>
+                <td className="py-2">
+                  <input type="number" min={0} step={0.05} value={price.input}
+                    onChange={(e) => setPrice(key, 'input', Number(e.target.value))} className={`${inputClass} w-24`}/>
+                </td>
+                <td className="py-2">
+                  <input type="number" min={0} step={0.05} value={price.output}
+                    onChange={(e) => setPrice(key, 'output', Number(e.target.value))} className={`${inputClass} w-24`}/>
+                </td>
+                <td className="py-2 text-right">
+                  <button onClick={() => removeModel(key)} className="opacity-50 hover:opacity-100 hover:text-red-400"><Trash2 size={14}/></button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        <div className="flex items-center gap-2">
+          <select value={newProvider} onChange={(e) => setNewProvider(e.target.value as ProviderId)} className={inputClass}>
+            {Object.values(PROVIDERS).map(p => <option key={p.id} value={p.id}>{p.label}</option>)}
+          </select>
+          <input value={newModel} onChange={(e) => setNewModel(e.target.value)} placeholder="Model name"
+            onKeyDown={(e) => { if (e.key === 'Enter') addModel(priceKey(newProvider, newModel.trim())); }}
+            className={`${inputClass} font-mono w-64`}/>
+          <button onClick={() => addModel(priceKey(newProvider, newModel.trim()))}
+            className="flex items-center gap-1 text-xs font-bold px-3 py-2 rounded-lg bg-[rgba(255,255,255,0.05)] hover:bg-[rgba(255,255,255,0.1)] transition">
+            <Plus size={12}/> Add model
+          </button>
+          {unpricedModels.map(key => (
+            <button key={key} onClick={() => addModel(key)}
+              className="text-xs font-mono px-2 py-1 rounded-full border border-dashed border-[var(--mf-border)] opacity-70 hover:opacity-100">
+              + {describeKey(key)}
+            </button>
+          ))}
+          <button onClick={onClear} disabled={!records.length}
+            className="ml-auto text-xs opacity-50 hover:opacity-100 hover:text-red-400 disabled:opacity-20">
+            Clear usage history
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default UsageDashboard;
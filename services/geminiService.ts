@@ -1,45 +1,69 @@
 import { GoogleGenAI } from "@google/genai";
+import { GenerateRequest, GenerateResult, LLMProvider } from "../types";
 
 // Ensure API key is available
 const apiKey = process.env.API_KEY || '';
 
-const ai = new GoogleGenAI({ apiKey });
+// Created on first use so a build without a key (offline deployments) never touches the SDK
+let ai: GoogleGenAI | null = null;
+const client = () => ai ??= new GoogleGenAI({ apiKey });
 
-export const generateContent = async (
-  model: string,
-  prompt: string,
-  systemInstruction?: string,
-  temperature: number = 0.2,
-  maxTokens: number = 4000
-) => {
+export const GEMINI_MODELS = ['gemini-3-flash-preview', 'gemini-3-pro-preview'];
+
+export const isGeminiModel = (model: string) => /^gemini-/i.test(model.trim());
+
+type UsageMetadata = { promptTokenCount?: number; candidatesTokenCount?: number; thoughtsTokenCount?: number };
+
+// Thinking tokens are billed as output
+const tokensOf = (usage?: UsageMetadata): GenerateResult['tokens'] =>
+  usage?.promptTokenCount === undefined
+    ? undefined
+    : { prompt: usage.promptTokenCount, response: (usage.candidatesTokenCount ?? 0) + (usage.thoughtsTokenCount ?? 0) };
+
+const generate = async (request: GenerateRequest, onText?: (text: string) => void, signal?: AbortSignal): Promise<GenerateResult> => {
   if (!apiKey) {
     throw new Error("API Key is missing. Please check your environment variables.");
   }
 
+  const params = {
+    model: request.model || GEMINI_MODELS[0],
+    contents: request.prompt,
+    config: {
+      systemInstruction: request.systemInstruction,
+      temperature: request.temperature,
+      maxOutputTokens: request.maxTokens,
+      abortSignal: signal,
+      ...(request.responseSchema ? { responseMimeType: 'application/json', responseJsonSchema: request.responseSchema } : {}),
+    },
+  };
+
+  let text = '';
+  // Streamed chunks carry the running totals; the last one has the final counts
+  let usage: UsageMetadata | undefined;
   try {
-    const response = await ai.models.generateContent({
-      model: model,
-      contents: prompt,
-      config: {
-        systemInstruction: systemInstruction,
-        temperature: temperature,
-        maxOutputTokens: maxTokens,
-      },
-    });
-    
-    return response.text || "No response generated.";
+    if (!onText) {
+      const response = await client().models.generateContent(params);
+      return { text: response.text || "No response generated.", tokens: tokensOf(response.usageMetadata) };
+    }
+    for await (const chunk of await client().models.generateContentStream(params)) {
+      if (signal?.aborted) break;
+      text += chunk.text ?? '';
+      usage = chunk.usageMetadata ?? usage;
+      onText(text);
+    }
   } catch (error) {
+    if (signal?.aborted) throw new Error("Stopped by user");
     console.error("Gemini API Error:", error);
     throw new Error(`Gemini API failed: ${error instanceof Error ? error.message : String(error)}`);
   }
+  if (signal?.aborted) throw new Error("Stopped by user");
+  return { text: text || "No response generated.", tokens: tokensOf(usage) };
 };
 
-export const generatePrediction = async (dataSummary: string) => {
-    const prompt = `Based on this medical supply data summary, predict the next month's potential volume trend and identify one category likely to surge. Keep it very brief (max 50 words). Data: ${dataSummary}`;
-    return generateContent("gemini-3-flash-preview", prompt, "You are a predictive analytics engine.", 0.2, 200);
-}
-
-export const generateInsight = async (dataSummary: string) => {
-     const prompt = `Give me one "Wow" insight about this dataset that isn't immediately obvious. Focus on supplier concentration or unusual category pairings. Max 1 sentence. Data: ${dataSummary}`;
-     return generateContent("gemini-3-flash-preview", prompt, "You are an insightful data scientist.", 0.7, 100);
-}
+export const geminiProvider: LLMProvider = {
+  id: 'gemini',
+  label: 'Google Gemini',
+  defaultModel: () => GEMINI_MODELS[0],
+  isConfigured: () => !!apiKey,
+  generate,
+};
@@ -0,0 +1,32 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { AgentSpec, ProviderId } from '../types';
+import { DEFAULT_AGENTS } from '../constants';
+import { DEFAULT_PROVIDER_SETTINGS, agentRequest, setProviderSettings } from './llmService';
+
+const memo = DEFAULT_AGENTS.find(a => a.id === '03_exec_memo')!;
+
+const useDefault = (default_provider: ProviderId) => setProviderSettings({ ...DEFAULT_PROVIDER_SETTINGS, default_provider });
+
+describe('agentRequest', () => {
+  beforeEach(() => {
+    vi.stubGlobal('localStorage', { getItem: () => null, setItem: () => {} });
+  });
+
+  it('keeps the model of an agent without a provider', () => {
+    useDefault('gemini');
+    expect(memo.provider).toBeUndefined();
+    expect(agentRequest(memo, '').model).toBe('gemini-3-pro-preview');
+  });
+
+  it('falls back to the default provider\'s model only when the model belongs to another provider', () => {
+    useDefault('openai_compatible');
+    expect(agentRequest(memo, '').model).toBeUndefined();
+    const local: AgentSpec = { ...memo, model: 'qwen2.5:7b' };
+    expect(agentRequest(local, '').model).toBe('qwen2.5:7b');
+  });
+
+  it('always sends the model of an agent with an explicit provider', () => {
+    useDefault('mock');
+    expect(agentRequest({ ...memo, provider: 'gemini' }, '').model).toBe('gemini-3-pro-preview');
+  });
+});
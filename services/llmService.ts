@@ -0,0 +1,148 @@
+import { AIResult, AgentSpec, GenerateRequest, GenerateResult, LLMProvider, ProviderId, ProviderSettings, UsageSource } from "../types";
+import { assertWithinBudget, measureCall, recordUsage } from "../utils/usage";
+import { redactRequest } from "../utils/redaction";
+import { fenceUntrusted, withDataNotice } from "../utils/promptSafety";
+import { geminiProvider, isGeminiModel } from "./geminiService";
+import { createOpenAiCompatibleProvider } from "./openAiCompatibleService";
+import { mockProvider } from "./mockService";
+
+const SETTINGS_KEY = 'medflow.providers';
+
+export const DEFAULT_PROVIDER_SETTINGS: ProviderSettings = {
+  // Without a Gemini key (offline deployments) the app starts on the mock provider instead of failing every call
+  default_provider: geminiProvider.isConfigured() ? 'gemini' : 'mock',
+  openai_base_url: 'http://localhost:11434/v1',
+  openai_api_key: '',
+  openai_model: 'llama3.1',
+};
+
+const loadSettings = (): ProviderSettings => {
+  try {
+    return { ...DEFAULT_PROVIDER_SETTINGS, ...JSON.parse(localStorage.getItem(SETTINGS_KEY) || '{}') };
+  } catch {
+    return DEFAULT_PROVIDER_SETTINGS;
+  }
+};
+
+let settings = loadSettings();
+
+export const getProviderSettings = () => settings;
+
+export const setProviderSettings = (next: ProviderSettings) => {
+  settings = next;
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(next));
+};
+
+export const PROVIDERS: Record<ProviderId, LLMProvider> = {
+  gemini: geminiProvider,
+  openai_compatible: createOpenAiCompatibleProvider(getProviderSettings),
+  mock: mockProvider,
+};
+
+export const getProvider = (id?: ProviderId) => PROVIDERS[id ?? settings.default_provider];
+
+export const isProviderConfigured = (id?: ProviderId) => getProvider(id).isConfigured();
+
+// Who a call is booked to on the usage dashboard
+export interface UsageTag {
+  source: UsageSource;
+  agentId?: string;
+  runId?: string;
+}
+
+/**
+ * Runs one request on the given provider (default provider when omitted); streams when `onText` is given.
+ * Identifiers are pseudonymized on the way out; the reply keeps the aliases (see restoreText).
+ * Refused once the budget cap is reached; every call is recorded in the usage ledger. A call that fails or is
+ * stopped after text has streamed (or while it was running) is recorded as partial, and the thrown error carries
+ * that usage as `usage`.
+ */
+export const generateContent = async (
+  request: GenerateRequest,
+  provider?: ProviderId,
+  onText?: (text: string) => void,
+  signal?: AbortSignal,
+  tag: UsageTag = { source: 'agent' }
+): Promise<AIResult> => {
+  assertWithinBudget();
+  const target = getProvider(provider);
+  const model = request.model || target.defaultModel();
+  const outbound = redactRequest({ ...request, model });
+  const started = performance.now();
+  let streamed = '';
+  const track = onText && ((text: string) => { streamed = text; onText(text); });
+  let result: GenerateResult;
+  try {
+    result = await target.generate(outbound, track, signal);
+  } catch (error) {
+    if (streamed || signal?.aborted) {
+      const usage = measureCall(target.id, model, outbound, { text: streamed }, performance.now() - started, true);
+      recordUsage(usage, tag.source, tag.agentId, tag.runId);
+      throw Object.assign(error instanceof Error ? error : new Error(String(error)), { usage });
+    }
+    throw error;
+  }
+  const usage = measureCall(target.id, model, outbound, result, performance.now() - started);
+  recordUsage(usage, tag.source, tag.agentId, tag.runId);
+  return { text: result.text, usage };
+};
+
+/**
+ * Model sent for an agent. Without an explicit provider the agent runs on the default one and keeps its model,
+ * unless the model clearly belongs to another provider (a Gemini model on a local server or the mock, or the
+ * reverse); then the default provider's own model is used.
+ */
+export const agentModel = (agent: AgentSpec): string | undefined => {
+    if (!agent.model || agent.provider) return agent.model || undefined;
+    return isGeminiModel(agent.model) === (getProvider().id === 'gemini') ? agent.model : undefined;
+};
+
+export const agentRequest = (agent: AgentSpec, prompt: string): GenerateRequest => ({
+    model: agentModel(agent),
+    prompt,
+    systemInstruction: withDataNotice(agent.system_prompt),
+    temperature: agent.temperature,
+    maxTokens: agent.max_tokens,
+    responseSchema: agent.output_schema,
+});
+
+export const predictionRequest = (forecastBrief: string): GenerateRequest => ({
+    prompt: `Below is a statistical forecast of medical supply volume (history, model, next-period value with 95% band, per category). Explain the overall outlook and name the category with the largest expected increase. Use only the numbers given; do not estimate new ones. Keep it very brief (max 50 words).
+Forecast:
+${fenceUntrusted('forecast', forecastBrief)}`,
+    systemInstruction: withDataNotice("You are a forecasting analyst who explains model output in plain language."),
+    temperature: 0.2,
+    maxTokens: 200,
+});
+
+export const insightRequest = (dataSummary: string): GenerateRequest => ({
+    prompt: `Give me one "Wow" insight about this dataset that isn't immediately obvious. Focus on supplier concentration or unusual category pairings. Max 1 sentence.
+Data:
+${fenceUntrusted('data_summary', dataSummary)}`,
+    systemInstruction: withDataNotice("You are an insightful data scientist."),
+    temperature: 0.7,
+    maxTokens: 100,
+});
+
+export const searchRequest = (query: string, vocabulary: string): GenerateRequest => ({
+    prompt: `Translate this search over medical device delivery records into JSON with keys suppliers, customers, categories, licenses (arrays of values taken only from the vocabulary), date_min and date_max (YYYY-MM-DD or null; resolve relative dates against latest_delivery) and text (array of remaining lowercase keywords to match against device name or model). Return JSON only.
+Vocabulary:
+${fenceUntrusted('vocabulary', vocabulary)}
+Query:
+${fenceUntrusted('query', query)}`,
+    systemInstruction: withDataNotice("You convert natural-language questions into structured filters. Never invent IDs."),
+    temperature: 0,
+    maxTokens: 400,
+});
+
+export const generatePrediction = async (forecastBrief: string) =>
+    generateContent(predictionRequest(forecastBrief), undefined, undefined, undefined, { source: 'prediction' });
+
+export const generateInsight = async (dataSummary: string) =>
+    generateContent(insightRequest(dataSummary), undefined, undefined, undefined, { source: 'insight' });
+
+export const translateSearchQuery = async (query: string, vocabulary: string) =>
+    generateContent(searchRequest(query, vocabulary), undefined, undefined, undefined, { source: 'search' });
+
+export const testProvider = async (provider: ProviderId) =>
+    generateContent({ prompt: 'Reply with the single word OK.', temperature: 0, maxTokens: 10 }, provider, undefined, undefined, { source: 'connection_test' });
@@ -0,0 +1,73 @@
+import { GenerateRequest, GenerateResult, JsonSchema, LLMProvider } from "../types";
+
+const CHUNK_DELAY_MS = 15;
+const CHUNK_WORDS = 4;
+
+const fnv1a = (s: string) => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < s.length; i++) {
+    hash ^= s.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+};
+
+/** Same request, same text: built only from the prompt itself, so demos and tests are reproducible offline. */
+const mockResponse = (request: GenerateRequest) => {
+  const model = request.model || 'mock';
+  const lines = request.prompt.split('\n').map(l => l.trim()).filter(Boolean);
+  const numbers = request.prompt.match(/-?\d+(?:\.\d+)?/g) ?? [];
+  return [
+    `### Mock response (${model})`,
+    `Request fingerprint ${fnv1a(`${model}|${request.temperature}|${request.systemInstruction ?? ''}|${request.prompt}`)} · ${request.prompt.length.toLocaleString()} characters · ${lines.length} lines`,
+    '',
+    '**Instructions received**',
+    ...lines.slice(0, 5).map(l => `> ${l.length > 160 ? `${l.slice(0, 160)}…` : l}`),
+    '',
+    '**Figures seen in the context**',
+    numbers.length ? `- ${numbers.slice(0, 8).join(', ')}${numbers.length > 8 ? ` … (${numbers.length} in total)` : ''}` : '- none',
+  ].join('\n');
+};
+
+// Schema-conforming JSON whose values are derived from the request fingerprint
+const mockJson = (schema: JsonSchema, seed: string, path: string): unknown => {
+  const pick = (n: number) => parseInt(fnv1a(`${seed}${path}`).slice(0, 6), 16) % n;
+  switch (schema.type) {
+    case 'object':
+      return Object.fromEntries(Object.entries(schema.properties ?? {}).map(([key, child]) => [key, mockJson(child, seed, `${path}.${key}`)]));
+    case 'array':
+      return Array.from({ length: 2 + pick(2) }, (_, i) => mockJson(schema.items!, seed, `${path}[${i}]`));
+    case 'string':
+      return schema.enum?.length ? schema.enum[pick(schema.enum.length)] : `Mock ${path.replace(/^\$\.?/, '') || 'value'} (${seed.slice(0, 4)})`;
+    case 'integer':
+      return pick(100);
+    case 'number':
+      return pick(10000) / 100;
+    case 'boolean':
+      return pick(2) === 1;
+  }
+};
+
+const generate = async (request: GenerateRequest, onText?: (text: string) => void, signal?: AbortSignal): Promise<GenerateResult> => {
+  const full = request.responseSchema
+    ? JSON.stringify(mockJson(request.responseSchema, fnv1a(request.prompt), '$'), null, 2)
+    : mockResponse(request);
+  if (!onText) return { text: full };
+  const words = full.split(/(?<=\s)/);
+  let text = '';
+  for (let i = 0; i < words.length; i += CHUNK_WORDS) {
+    await new Promise(resolve => setTimeout(resolve, CHUNK_DELAY_MS));
+    if (signal?.aborted) throw new Error("Stopped by user");
+    text += words.slice(i, i + CHUNK_WORDS).join('');
+    onText(text);
+  }
+  return { text: full };
+};
+
+export const mockProvider: LLMProvider = {
+  id: 'mock',
+  label: 'Mock (offline, deterministic)',
+  defaultModel: () => 'mock',
+  isConfigured: () => true,
+  generate,
+};
@@ -0,0 +1,97 @@
+import { GenerateRequest, GenerateResult, LLMProvider, ProviderSettings } from "../types";
+
+type ChatChunk = {
+  choices?: { delta?: { content?: string }; message?: { content?: string } }[];
+  usage?: { prompt_tokens?: number; completion_tokens?: number } | null;
+};
+
+const tokensOf = (usage: ChatChunk['usage']): GenerateResult['tokens'] =>
+  usage?.prompt_tokens === undefined ? undefined : { prompt: usage.prompt_tokens, response: usage.completion_tokens ?? 0 };
+
+// Server-sent events: one JSON chunk per `data:` line, terminated by `data: [DONE]`; usage, if any, comes in the last chunk
+const readEventStream = async (body: ReadableStream<Uint8Array>, onText: (text: string) => void): Promise<GenerateResult> => {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let text = '';
+  let tokens: GenerateResult['tokens'];
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+    const lines = buffer.split('\n');
+    buffer = lines.pop() ?? '';
+    for (const line of lines) {
+      if (!line.startsWith('data:')) continue;
+      const data = line.slice(5).trim();
+      if (!data || data === '[DONE]') continue;
+      const chunk = JSON.parse(data) as ChatChunk;
+      tokens = tokensOf(chunk.usage) ?? tokens;
+      const delta = chunk.choices?.[0]?.delta?.content;
+      if (delta) {
+        text += delta;
+        onText(text);
+      }
+    }
+  }
+  return { text, tokens };
+};
+
+/** Any server exposing POST /chat/completions, e.g. a local llama.cpp or Ollama instance. */
+export const createOpenAiCompatibleProvider = (settings: () => ProviderSettings): LLMProvider => {
+  const generate = async (request: GenerateRequest, onText?: (text: string) => void, signal?: AbortSignal): Promise<GenerateResult> => {
+    const { openai_base_url, openai_api_key, openai_model } = settings();
+    if (!openai_base_url) {
+      throw new Error("No endpoint configured for the OpenAI-compatible provider. Set it on the Config tab.");
+    }
+
+    // Not every local server enforces response_format, so the schema is also stated in the instructions
+    const systemInstruction = request.responseSchema
+      ? `${request.systemInstruction ?? ''}\nRespond only with JSON matching this schema: ${JSON.stringify(request.responseSchema)}`.trim()
+      : request.systemInstruction;
+
+    try {
+      const response = await fetch(`${openai_base_url.replace(/\/+$/, '')}/chat/completions`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(openai_api_key ? { Authorization: `Bearer ${openai_api_key}` } : {}),
+        },
+        body: JSON.stringify({
+          model: request.model || openai_model,
+          messages: [
+            ...(systemInstruction ? [{ role: 'system', content: systemInstruction }] : []),
+            { role: 'user', content: request.prompt },
+          ],
+          temperature: request.temperature,
+          max_tokens: request.maxTokens,
+          stream: !!onText,
+          ...(onText ? { stream_options: { include_usage: true } } : {}),
+          ...(request.responseSchema
+            ? { response_format: { type: 'json_schema', json_schema: { name: 'agent_output', schema: request.responseSchema } } }
+            : {}),
+        }),
+        signal,
+      });
+      if (!response.ok) throw new Error(`HTTP ${response.status} ${await response.text()}`);
+      if (onText && response.body) {
+        const streamed = await readEventStream(response.body, onText);
+        return { ...streamed, text: streamed.text || "No response generated." };
+      }
+      const json = await response.json() as ChatChunk;
+      return { text: json.choices?.[0]?.message?.content || "No response generated.", tokens: tokensOf(json.usage) };
+    } catch (error) {
+      if (signal?.aborted) throw new Error("Stopped by user");
+      console.error("OpenAI-compatible API Error:", error);
+      throw new Error(`Local model failed: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  };
+
+  return {
+    id: 'openai_compatible',
+    label: 'OpenAI-compatible (local)',
+    defaultModel: () => settings().openai_model,
+    isConfigured: () => !!settings().openai_base_url,
+    generate,
+  };
+};
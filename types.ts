@@ -31,6 +31,31 @@ export interface MedFlowRow {
   parsedDate?: Date;
 }
 
+export type MedFlowField = Exclude<keyof MedFlowRow, 'parsedDate'>;
+
+// Column index in the source file for each MedFlowRow field (null = not present)
+export type ColumnMapping = Record<MedFlowField, number | null>;
+
+export type CsvEncoding = 'auto' | 'utf-8' | 'big5';
+
+export interface RowRejection {
+  line: number;
+  reason: string;
+  raw: string;
+}
+
+export type ImportFormat = 'csv' | 'xlsx' | 'json' | 'ndjson';
+
+export interface ImportResult {
+  format: ImportFormat;
+  headers: string[];
+  mapping: ColumnMapping;
+  encoding: Exclude<CsvEncoding, 'auto'>;
+  rows: MedFlowRow[];
+  rejections: RowRejection[];
+  rejectedCount: number;
+}
+
 export interface DataSummary {
   rows: number;
   total_units: number;
@@ -46,20 +71,220 @@ export interface DataSummary {
   top_suppliers: { key: string; units: number }[];
   top_customers: { key: string; units: number }[];
   top_categories: { key: string; units: number }[];
+  top_licenses: { key: string; units: number }[];
   sample_rows: MedFlowRow[];
 }
 
+export type TimeBucket = 'day' | 'week' | 'month';
+
+export type TimeSeriesSplit = 'none' | 'Category' | 'SupplierID';
+
+// One row per period; each series key holds its units for that period (0 when nothing was delivered)
+export interface TimeSeriesPoint {
+  period: string;
+  start: number;
+  total: number;
+  [series: string]: number | string;
+}
+
+export interface TimeSeries {
+  bucket: TimeBucket;
+  split: TimeSeriesSplit;
+  series: string[];
+  points: TimeSeriesPoint[];
+}
+
+export type ForecastModel = 'auto' | 'moving_average' | 'linear_trend' | 'holt_winters';
+
+export interface ForecastResult {
+  model: Exclude<ForecastModel, 'auto'>;
+  values: number[];
+  lower: number[];
+  upper: number[];
+  rmse: number;
+}
+
+export interface SeriesForecast extends ForecastResult {
+  key: string;
+  periods: string[];
+}
+
+export type AnomalyRule = 'quantity_spike' | 'duplicate_serial' | 'duplicate_row' | 'future_date' | 'bulk_implantable' | 'instruction_text';
+
+export type AnomalySeverity = 'low' | 'medium' | 'high';
+
+export interface Anomaly {
+  id: string;
+  rule: AnomalyRule;
+  severity: AnomalySeverity;
+  title: string;
+  explanation: string;
+  metrics: Record<string, number | string>;
+  rows: MedFlowRow[];
+}
+
+export interface AnomalyOptions {
+  spikeMethod: 'zscore' | 'iqr';
+  zThreshold: number;
+  iqrK: number;
+  minGroupSize: number;
+  bulkImplantableMax: number;
+  now: Date;
+}
+
+export interface UdiParseResult {
+  format: 'gtin' | 'hri' | 'element_string';
+  gtin: string | null;
+  checkDigitValid: boolean | null;
+  lot: string | null;
+  serial: string | null;
+  expiry: string | null; // YYYY-MM-DD
+  errors: string[];
+}
+
+export type UdiIssueKind = 'invalid_format' | 'check_digit' | 'lot_mismatch' | 'serial_mismatch' | 'expired_at_delivery';
+
+export interface UdiIssue {
+  kind: UdiIssueKind;
+  message: string;
+  row: MedFlowRow;
+}
+
+export interface LicenseInfo {
+  raw: string;
+  valid: boolean;
+  authority: 'MOHW' | 'DOH' | null;
+  type: 'import' | 'import_china' | 'manufacture' | null;
+  classI: boolean;
+  serial: string | null;
+  normalized: string | null;
+}
+
 export interface FilterState {
   date_min: string | null;
   date_max: string | null;
   suppliers: string[];
   customers: string[];
   categories: string[];
+  licenses: string[];
   top_n: number;
   edge_threshold: number;
   max_nodes: number;
 }
 
+export type SearchFilterKeys = 'suppliers' | 'customers' | 'categories' | 'licenses' | 'date_min' | 'date_max';
+
+// Result of translating a natural-language query: structured filters plus terms matched against DeviceNAME/Model
+export interface SearchIntent {
+  filters: Pick<FilterState, SearchFilterKeys>;
+  text: string[];
+  source: 'ai' | 'local';
+}
+
+export type ProviderId = 'gemini' | 'openai_compatible' | 'mock';
+
+// Subset of JSON Schema understood by the validator and accepted by every provider
+export interface JsonSchema {
+  type: 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean';
+  description?: string;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  items?: JsonSchema;
+  enum?: string[];
+}
+
+// Model call handed to a provider; `model` falls back to the provider's default when omitted
+export interface GenerateRequest {
+  model?: string;
+  prompt: string;
+  systemInstruction?: string;
+  temperature: number;
+  maxTokens: number;
+  // Asks for JSON matching this schema (Gemini response schema, OpenAI response_format)
+  responseSchema?: JsonSchema;
+}
+
+// What a provider hands back; `tokens` is omitted when the server reports no usage
+export interface GenerateResult {
+  text: string;
+  tokens?: { prompt: number; response: number };
+}
+
+export interface LLMProvider {
+  id: ProviderId;
+  label: string;
+  defaultModel: () => string;
+  isConfigured: () => boolean;
+  // Streams when `onText` is given (full text so far after every chunk); rejects once `signal` is aborted
+  generate: (request: GenerateRequest, onText?: (text: string) => void, signal?: AbortSignal) => Promise<GenerateResult>;
+}
+
+// One model call as billed; `cost` (USD) is taken from the price table at the time of the call
+export interface CallUsage {
+  provider: ProviderId;
+  model: string;
+  prompt_tokens: number;
+  response_tokens: number;
+  // The provider reported no token counts, so they were estimated from the text length
+  estimated: boolean;
+  latency_ms: number;
+  cost: number;
+  // The model has no entry in the price table and was counted at zero cost
+  unpriced?: boolean;
+  // The call failed or was stopped; counts cover the prompt and the text streamed until then
+  partial?: boolean;
+}
+
+export interface AIResult {
+  text: string;
+  usage: CallUsage;
+}
+
+export type UsageSource = 'agent' | 'insight' | 'prediction' | 'search' | 'connection_test';
+
+// Ledger entry behind the usage dashboard and the budget cap
+export interface UsageRecord extends CallUsage {
+  id: string;
+  timestamp: number;
+  source: UsageSource;
+  agentId?: string;
+  runId?: string;
+}
+
+// USD per million tokens
+export interface ModelPrice {
+  input: number;
+  output: number;
+}
+
+export interface UsageSettings {
+  // Keyed by priceKey(provider, model), e.g. "gemini/gemini-3-flash-preview"
+  prices: Record<string, ModelPrice>;
+  // No cap when null; once spend in the current period reaches it, every model call is refused
+  budget_usd: number | null;
+  budget_period: 'day' | 'month';
+}
+
+export interface ProviderSettings {
+  default_provider: ProviderId;
+  // OpenAI-compatible chat completions server, e.g. http://localhost:11434/v1 (Ollama) or :8080/v1 (llama.cpp)
+  openai_base_url: string;
+  openai_api_key: string;
+  openai_model: string;
+}
+
+// Gate for a pipeline step, evaluated once its dependencies have finished
+export type StepCondition =
+  | { kind: 'anomaly_severity'; at_least: AnomalySeverity }
+  | { kind: 'output_matches'; agent: string; pattern: string };
+
+export interface StepPolicy {
+  retries: number;
+  retry_delay_ms: number;
+  // 'stop' fails the whole run; 'skip' records the failure and skips only the steps that depend on it
+  on_failure: 'stop' | 'skip';
+}
+
 export interface AgentSpec {
   id: string;
   name: string;
@@ -69,14 +294,66 @@ export interface AgentSpec {
   user_prompt_template: string;
   temperature: number;
   max_tokens: number;
+  // Unset means the default provider from the Config tab
+  provider?: ProviderId;
+  // Structured output: sent as the response schema, validated and repaired before the step completes
+  output_schema?: JsonSchema;
+  // Added to the dependencies inferred from {{agents.<id>}} references
+  depends_on?: string[];
+  condition?: StepCondition;
+  policy?: Partial<StepPolicy>;
+}
+
+export type StepStatus = 'pending' | 'running' | 'completed' | 'failed' | 'skipped' | 'cancelled';
+
+export interface PipelineStep {
+  status: StepStatus;
+  attempts: number;
+  startedAt?: number;
+  finishedAt?: number;
+  error?: string;
+  reason?: string;
+  // Output failed schema validation once and was fixed by the repair prompt
+  repaired?: boolean;
+  // Every model call made for this step, including retries and repair prompts
+  usage?: CallUsage[];
+}
+
+// Values for the {{...}} placeholders of AgentSpec.user_prompt_template; `agents` is keyed by agent id
+export interface TemplateContext {
+  data_summary: string;
+  data_sample: string;
+  anomaly_findings: string;
+  filters: string;
+  previous_output: string;
+  agents: Record<string, string>;
+}
+
+// Problem found before a run; `field` is the placeholder or spec field at fault
+export interface PipelineIssue {
+  agentId: string;
+  field: string;
+  message: string;
 }
 
 export interface PipelineRun {
     id: string;
     timestamp: number;
     agentOutputs: Record<string, string>;
-    status: 'running' | 'completed' | 'failed';
+    steps: Record<string, PipelineStep>;
+    status: 'running' | 'completed' | 'failed' | 'cancelled';
     error?: string;
+    // Everything needed to reproduce the run: rendered prompts, specs, filters and the data it saw
+    prompts: Record<string, string>;
+    agents: AgentSpec[];
+    filters: FilterState;
+    searchTerms: string[];
+    sampleSize: number;
+    // Missing on runs saved before it was recorded; replays fall back to the current method
+    spikeMethod?: AnomalyOptions['spikeMethod'];
+    datasetFingerprint: string;
+    rowCount: number;
+    replayOf?: string;
 }
 
-export type TabId = 'overview' | 'network' | 'agents' | 'data' | 'config' | 'quality';
+export type TabId = 'overview' | 'network' | 'trace' | 'agents' | 'data' | 'config' | 'quality' | 'usage';
@@ -0,0 +1,238 @@
+import { MedFlowRow, Anomaly, AnomalyOptions, AnomalyRule, AnomalySeverity } from '../types';
+import { toISODate } from './dateUtils';
+import { INJECTION_PATTERNS, InjectionPatternId, TEXT_FIELDS, findInstructionText } from './promptSafety';
+
+export const DEFAULT_ANOMALY_OPTIONS: Omit<AnomalyOptions, 'now'> = {
+  spikeMethod: 'zscore',
+  zThreshold: 3,
+  iqrK: 1.5,
+  minGroupSize: 4,
+  bulkImplantableMax: 2,
+};
+
+export const ANOMALY_RULE_LABELS: Record<AnomalyRule, string> = {
+  quantity_spike: 'Quantity Spikes',
+  duplicate_serial: 'Duplicate Serials',
+  duplicate_row: 'Duplicate Shipments',
+  future_date: 'Future Dates',
+  bulk_implantable: 'Bulk Implantables',
+  instruction_text: 'Instruction-like Text',
+};
+
+// Devices meant for a single patient; shipping many at once to one customer is unusual
+const IMPLANTABLE_PATTERN = /implant|pulse generator|pacemaker|defibrillator|neurostimulator|植入|心律調節器/i;
+
+export const isImplantable = (r: MedFlowRow) => IMPLANTABLE_PATTERN.test(r.Category) || IMPLANTABLE_PATTERN.test(r.DeviceNAME);
+
+const round2 = (v: number) => Math.round(v * 100) / 100;
+
+const maxUnits = (rows: MedFlowRow[]) => rows.reduce((m, r) => r.Number > m ? r.Number : m, -Infinity);
+
+const quantile = (sorted: number[], q: number) => {
+  const pos = (sorted.length - 1) * q;
+  const lo = Math.floor(pos);
+  const hi = Math.ceil(pos);
+  return sorted[lo] + (sorted[hi] - sorted[lo]) * (pos - lo);
+};
+
+const groupBy = (data: MedFlowRow[], keyOf: (r: MedFlowRow) => string | null) => {
+  const groups = new Map<string, MedFlowRow[]>();
+  data.forEach(r => {
+    const k = keyOf(r);
+    if (k === null) return;
+    let g = groups.get(k);
+    if (!g) groups.set(k, g = []);
+    g.push(r);
+  });
+  return groups;
+};
+
+const detectSpikes = (data: MedFlowRow[], dimension: 'SupplierID' | 'CustomerID', opts: AnomalyOptions): Anomaly[] => {
+  const out: Anomaly[] = [];
+  const entity = dimension === 'SupplierID' ? 'supplier' : 'customer';
+
+  groupBy(data, r => r[dimension]).forEach((rows, key) => {
+    if (rows.length < opts.minGroupSize) return;
+    const values = rows.map(r => r.Number);
+
+    let threshold: number;
+    let metrics: Record<string, number | string>;
+    let score: (v: number) => number;
+    if (opts.spikeMethod === 'zscore') {
+      const mean = values.reduce((s, v) => s + v, 0) / values.length;
+      const sd = Math.sqrt(values.reduce((s, v) => s + (v - mean) ** 2, 0) / values.length);
+      if (sd === 0) return;
+      threshold = mean + opts.zThreshold * sd;
+      score = v => (v - mean) / sd / opts.zThreshold;
+      metrics = { method: 'z-score', mean: round2(mean), sd: round2(sd), z: opts.zThreshold, threshold: round2(threshold) };
+    } else {
+      const sorted = [...values].sort((a, b) => a - b);
+      const q1 = quantile(sorted, 0.25);
+      const q3 = quantile(sorted, 0.75);
+      const iqr = q3 - q1;
+      if (iqr === 0) return;
+      threshold = q3 + opts.iqrK * iqr;
+      score = v => (v - q3) / (opts.iqrK * iqr);
+      metrics = { method: 'IQR', q1: round2(q1), q3: round2(q3), k: opts.iqrK, threshold: round2(threshold) };
+    }
+
+    const spikes = rows.filter(r => r.Number > threshold);
+    if (!spikes.length) return;
+    const peak = maxUnits(spikes);
+    out.push({
+      id: `quantity_spike:${dimension}:${key}`,
+      rule: 'quantity_spike',
+      severity: score(peak) >= 2 ? 'high' : 'medium',
+      title: `Quantity spike at ${entity} ${key}`,
+      explanation: `${spikes.length} of ${rows.length} shipments exceed ${round2(threshold)} units (${metrics.method}); peak ${peak}.`,
+      metrics: { ...metrics, shipments: rows.length, flagged: spikes.length, peak },
+      rows: spikes,
+    });
+  });
+  return out;
+};
+
+const detectDuplicateSerials = (data: MedFlowRow[]): Anomaly[] => {
+  const out: Anomaly[] = [];
+  // A serialized unit (UDI + lot + serial) should be shipped exactly once
+  groupBy(data, r => r.SerNo ? `${r.UDID}|${r.LotNO}|${r.SerNo}` : null).forEach((rows, key) => {
+    if (rows.length < 2) return;
+    const [udid, lot, serial] = key.split('|');
+    const customers = new Set(rows.map(r => r.CustomerID));
+    out.push({
+      id: `duplicate_serial:${key}`,
+      rule: 'duplicate_serial',
+      severity: 'high',
+      title: `Serial ${serial} shipped ${rows.length} times`,
+      explanation: `UDI ${udid || '(none)'} lot ${lot || '(none)'} serial ${serial} appears in ${rows.length} shipments to ${customers.size} customer(s).`,
+      metrics: { shipments: rows.length, customers: customers.size },
+      rows,
+    });
+  });
+  return out;
+};
+
+const detectDuplicateRows = (data: MedFlowRow[]): Anomaly[] => {
+  const out: Anomaly[] = [];
+  groupBy(data, r => [r.SupplierID, r.Deliverdate, r.CustomerID, r.UDID, r.LotNO, r.SerNo, r.Model, r.Number].join('|')).forEach((rows, key) => {
+    // Serialized duplicates are already reported by the serial rule
+    if (rows.length < 2 || rows[0].SerNo) return;
+    const r = rows[0];
+    out.push({
+      id: `duplicate_row:${key}`,
+      rule: 'duplicate_row',
+      severity: 'medium',
+      title: `Identical shipment repeated ${rows.length} times`,
+      explanation: `${r.SupplierID} → ${r.CustomerID} on ${r.Deliverdate}: lot ${r.LotNO || '(none)'}, ${r.Number} units, recorded ${rows.length} times; likely a double export.`,
+      metrics: { copies: rows.length, units_each: r.Number },
+      rows,
+    });
+  });
+  return out;
+};
+
+const detectFutureDates = (data: MedFlowRow[], opts: AnomalyOptions): Anomaly[] => {
+  const today = new Date(opts.now.getFullYear(), opts.now.getMonth(), opts.now.getDate() + 1).getTime();
+  const out: Anomaly[] = [];
+  groupBy(data, r => r.parsedDate && r.parsedDate.getTime() >= today ? r.SupplierID : null).forEach((rows, supplier) => {
+    const latest = rows.reduce((m, r) => r.parsedDate!.getTime() > m ? r.parsedDate!.getTime() : m, 0);
+    out.push({
+      id: `future_date:${supplier}`,
+      rule: 'future_date',
+      severity: 'medium',
+      title: `Future-dated deliveries from ${supplier}`,
+      explanation: `${rows.length} shipment(s) dated after ${toISODate(opts.now)}, latest ${toISODate(new Date(latest))}.`,
+      metrics: { shipments: rows.length, latest: toISODate(new Date(latest)) },
+      rows,
+    });
+  });
+  return out;
+};
+
+const detectBulkImplantables = (data: MedFlowRow[], opts: AnomalyOptions): Anomaly[] => {
+  const out: Anomaly[] = [];
+  groupBy(data, r => isImplantable(r) && r.Number > opts.bulkImplantableMax ? `${r.SupplierID}|${r.Category}` : null)
+    .forEach((rows, key) => {
+      const [supplier, category] = key.split('|');
+      const peak = maxUnits(rows);
+      out.push({
+        id: `bulk_implantable:${key}`,
+        rule: 'bulk_implantable',
+        severity: peak > opts.bulkImplantableMax * 5 ? 'high' : 'medium',
+        title: `Bulk ${category} shipments from ${supplier}`,
+        explanation: `${rows.length} shipment(s) of an implantable device above ${opts.bulkImplantableMax} units; peak ${peak}.`,
+        metrics: { shipments: rows.length, max_allowed: opts.bulkImplantableMax, peak },
+        rows,
+      });
+    });
+  return out;
+};
+
+// Cells that read like instructions to a model (prompt injection); the text itself is never quoted in the finding
+const detectInstructionText = (data: MedFlowRow[]): Anomaly[] => {
+  const groups = new Map<InjectionPatternId, { rows: MedFlowRow[]; fields: Set<string> }>();
+  data.forEach(r => {
+    // One pass over the whole row first; most rows match nothing
+    if (!findInstructionText(TEXT_FIELDS.map(f => r[f]).join('\t'))) return;
+    TEXT_FIELDS.forEach(f => {
+      const id = findInstructionText(r[f]);
+      if (!id) return;
+      let g = groups.get(id);
+      if (!g) groups.set(id, g = { rows: [], fields: new Set() });
+      if (g.rows[g.rows.length - 1] !== r) g.rows.push(r);
+      g.fields.add(f);
+    });
+  });
+  return Array.from(groups.entries()).map(([id, g]) => {
+    const label = INJECTION_PATTERNS.find(p => p.id === id)!.label;
+    return {
+      id: `instruction_text:${id}`,
+      rule: 'instruction_text',
+      severity: 'high',
+      title: `${label} in ${g.rows.length} row(s)`,
+      explanation: `Found in ${Array.from(g.fields).join(', ')}. The text is escaped and fenced before it reaches a model, but the source record should be checked.`,
+      metrics: { rows: g.rows.length, fields: g.fields.size },
+      rows: g.rows,
+    };
+  });
+};
+
+const SEVERITY_RANK: Record<AnomalySeverity, number> = { high: 0, medium: 1, low: 2 };
+
+/** Runs every rule over the given rows; results are sorted by severity, then by number of rows involved. */
+export const detectAnomalies = (data: MedFlowRow[], options: Partial<AnomalyOptions> = {}): Anomaly[] => {
+  const opts: AnomalyOptions = { ...DEFAULT_ANOMALY_OPTIONS, now: new Date(), ...options };
+  return [
+    ...detectSpikes(data, 'SupplierID', opts),
+    ...detectSpikes(data, 'CustomerID', opts),
+    ...detectDuplicateSerials(data),
+    ...detectDuplicateRows(data),
+    ...detectFutureDates(data, opts),
+    ...detectBulkImplantables(data, opts),
+    ...detectInstructionText(data),
+  ].sort((a, b) => SEVERITY_RANK[a.severity] - SEVERITY_RANK[b.severity] || b.rows.length - a.rows.length);
+};
+
+/** Compact structured findings for the anomaly agent: counts plus the top findings with a few example rows. */
+export const summarizeAnomalies = (anomalies: Anomaly[], maxFindings: number = 20, rowsPerFinding: number = 3) => {
+  const by_rule: Partial<Record<AnomalyRule, number>> = {};
+  const by_severity: Partial<Record<AnomalySeverity, number>> = {};
+  anomalies.forEach(a => {
+    by_rule[a.rule] = (by_rule[a.rule] || 0) + 1;
+    by_severity[a.severity] = (by_severity[a.severity] || 0) + 1;
+  });
+  return {
+    total: anomalies.length,
+    by_rule,
+    by_severity,
+    findings: anomalies.slice(0, maxFindings).map(a => ({
+      rule: a.rule,
+      severity: a.severity,
+      title: a.title,
+      explanation: a.explanation,
+      metrics: a.metrics,
+      affected_rows: a.rows.length,
+      examples: a.rows.slice(0, rowsPerFinding).map(({ parsedDate, ...r }) => r),
+    })),
+  };
+};
@@ -0,0 +1,103 @@
+import { MedFlowRow, ColumnMapping, CsvEncoding, ImportResult } from '../types';
+import { createCsvStreamParser, guessColumnMapping } from './csvParser';
+import type { CsvWorkerMessage, CsvWorkerRequest } from './csvWorker';
+
+const SNIFF_BYTES = 64 * 1024;
+
+export interface CsvSniffResult {
+  headers: string[];
+  mapping: ColumnMapping;
+  encoding: 'utf-8' | 'big5';
+}
+
+export interface IngestProgress {
+  processed: number;
+  total: number;
+  rows: number;
+}
+
+// A strict UTF-8 decode of the first chunk fails on Big5 bytes; stream mode tolerates a sequence cut at the slice end
+const detectEncoding = (bytes: Uint8Array): 'utf-8' | 'big5' => {
+  try {
+    new TextDecoder('utf-8', { fatal: true }).decode(bytes, { stream: true });
+    return 'utf-8';
+  } catch {
+    return 'big5';
+  }
+};
+
+const readHeader = (text: string): string[] => {
+  let headers: string[] = [];
+  const parser = createCsvStreamParser(fields => {
+    if (!headers.length) headers = fields.map(h => h.trim());
+  });
+  parser.push(text);
+  parser.finish();
+  return headers;
+};
+
+/** Reads only the start of the source to find the header row, the encoding and a suggested column mapping. */
+export const sniffCsv = async (source: File | string, encoding: CsvEncoding): Promise<CsvSniffResult> => {
+  if (typeof source === 'string') {
+    const headers = readHeader(source.slice(0, SNIFF_BYTES));
+    return { headers, mapping: guessColumnMapping(headers), encoding: 'utf-8' };
+  }
+
+  const bytes = new Uint8Array(await source.slice(0, SNIFF_BYTES).arrayBuffer());
+  const resolved = encoding === 'auto' ? detectEncoding(bytes) : encoding;
+  const headers = readHeader(new TextDecoder(resolved).decode(bytes, { stream: true }));
+  return { headers, mapping: guessColumnMapping(headers), encoding: resolved };
+};
+
+/** Parses the full source in a Web Worker. `cancel` terminates the worker and rejects the promise. */
+export const ingestCsv = (
+  source: File | string,
+  sniff: CsvSniffResult,
+  mapping: ColumnMapping,
+  onProgress?: (p: IngestProgress) => void
+): { promise: Promise<ImportResult>; cancel: () => void } => {
+  const worker = new Worker(new URL('./csvWorker.ts', import.meta.url), { type: 'module' });
+  let rejectPromise: (reason: Error) => void = () => {};
+
+  const promise = new Promise<ImportResult>((resolve, reject) => {
+    rejectPromise = reject;
+    const rows: MedFlowRow[] = [];
+
+    worker.onmessage = (e: MessageEvent<CsvWorkerMessage>) => {
+      const msg = e.data;
+      if (msg.type === 'rows') {
+        for (const r of msg.rows) rows.push(r);
+      } else if (msg.type === 'progress') {
+        onProgress?.({ processed: msg.processed, total: msg.total, rows: msg.rows });
+      } else if (msg.type === 'done') {
+        worker.terminate();
+        resolve({
+          format: 'csv',
+          headers: sniff.headers,
+          mapping,
+          encoding: sniff.encoding,
+          rows,
+          rejections: msg.rejections,
+          rejectedCount: msg.rejectedCount,
+        });
+      } else {
+        worker.terminate();
+        reject(new Error(msg.message));
+      }
+    };
+    worker.onerror = (e) => {
+      worker.terminate();
+      reject(new Error(e.message || 'CSV worker failed'));
+    };
+
+    const request: CsvWorkerRequest = { source, encoding: sniff.encoding, mapping };
+    worker.postMessage(request);
+  });
+
+  const cancel = () => {
+    worker.terminate();
+    rejectPromise(new Error('Import cancelled'));
+  };
+
+  return { promise, cancel };
+};
@@ -1,63 +1,244 @@
-import { MedFlowRow, DataSummary } from '../types';
+import {
+  MedFlowRow, DataSummary, MedFlowField, ColumnMapping, RowRejection, ImportResult
+} from '../types';
+import { toISODate } from './dateUtils';
 
-export const parseMedFlowCSV = (text: string): MedFlowRow[] => {
-  const lines = text.trim().split('\n');
-  if (lines.length < 2) return [];
+export const MEDFLOW_FIELDS: MedFlowField[] = [
+  'SupplierID', 'Deliverdate', 'CustomerID', 'LicenseNo', 'Category',
+  'UDID', 'DeviceNAME', 'LotNO', 'SerNo', 'Model', 'Number'
+];
 
-  const headers = lines[0].split(',').map(h => h.trim().replace(/"/g, ''));
-  const rows: MedFlowRow[] = [];
+export const REQUIRED_FIELDS: MedFlowField[] = ['SupplierID', 'CustomerID', 'Number'];
+
+// Header spellings seen in regulator / distributor exports (normalized: lowercase, no spaces, dashes or underscores)
+const COLUMN_ALIASES: Record<MedFlowField, string[]> = {
+  SupplierID: ['supplierid', 'supplier', 'suppliercode', 'vendor', 'vendorid', '供應商', '供應商代碼', '廠商代碼'],
+  Deliverdate: ['deliverdate', 'deliverydate', 'shipdate', 'date', '交貨日期', '出貨日期', '日期'],
+  CustomerID: ['customerid', 'customer', 'customercode', 'hospital', '客戶', '客戶代碼', '醫院代碼'],
+  LicenseNo: ['licenseno', 'license', 'licensenumber', '許可證字號', '許可證'],
+  Category: ['category', 'devicecategory', '類別', '分類', '品項分類'],
+  UDID: ['udid', 'udi', 'udidi', 'gtin', '醫療器材單一識別碼'],
+  DeviceNAME: ['devicename', 'device', 'productname', '品名', '產品名稱'],
+  LotNO: ['lotno', 'lot', 'lotnumber', 'batch', '批號'],
+  SerNo: ['serno', 'serial', 'serialno', 'serialnumber', '序號'],
+  Model: ['model', 'modelno', '型號'],
+  Number: ['number', 'qty', 'quantity', 'units', '數量'],
+};
+
+const normalizeHeader = (h: string) => h.replace(/^\uFEFF/, '').trim().toLowerCase().replace(/[\s_\-]/g, '');
+
+export const emptyColumnMapping = (): ColumnMapping =>
+  Object.fromEntries(MEDFLOW_FIELDS.map(f => [f, null])) as ColumnMapping;
+
+export const guessColumnMapping = (headers: string[]): ColumnMapping => {
+  const mapping = emptyColumnMapping();
+  const normalized = headers.map(normalizeHeader);
+  const used = new Set<number>();
+  MEDFLOW_FIELDS.forEach(field => {
+    const idx = normalized.findIndex((h, i) => !used.has(i) && COLUMN_ALIASES[field].includes(h));
+    if (idx !== -1) {
+      mapping[field] = idx;
+      used.add(idx);
+    }
+  });
+  return mapping;
+};
+
+export const missingRequiredFields = (mapping: ColumnMapping): MedFlowField[] =>
+  REQUIRED_FIELDS.filter(f => mapping[f] === null);
+
+export interface CsvStreamParser {
+  push: (chunk: string) => void;
+  finish: () => void;
+}
+
+/**
+ * Incremental RFC 4180 tokenizer. Chunks may split anywhere (inside quotes, between
+ * CR and LF, between the two quotes of an escaped quote). Records are emitted with the
+ * 1-based line number they start on; blank lines are skipped.
+ */
+export const createCsvStreamParser = (
+  onRecord: (fields: string[], line: number, error?: string) => void
+): CsvStreamParser => {
+  let field = '';
+  let record: string[] = [];
+  let inQuotes = false;
+  let afterQuote = false; // just closed a quoted section; a second quote means an escaped quote
+  let afterCR = false;
+  let started = false;
+  let line = 1;
+  let recordLine = 1;
+  let atStart = true;
+
+  const endField = () => {
+    record.push(field);
+    field = '';
+    afterQuote = false;
+  };
+
+  const endRecord = () => {
+    endField();
+    if (!(record.length === 1 && record[0] === '')) onRecord(record, recordLine);
+    record = [];
+    recordLine = line;
+  };
+
+  const push = (chunk: string) => {
+    for (let i = 0; i < chunk.length; i++) {
+      const c = chunk[i];
+      if (atStart) {
+        atStart = false;
+        if (c === '\uFEFF') continue;
+      }
+      started = true;
+
+      if (inQuotes) {
+        if (c === '"') {
+          inQuotes = false;
+          afterQuote = true;
+        } else {
+          if (c === '\n') line++;
+          field += c;
+        }
+        continue;
+      }
+
+      if (afterCR) {
+        afterCR = false;
+        if (c === '\n') continue;
+      }
 
-  // Simple CSV parser that handles basic quotes
-  const parseLine = (line: string): string[] => {
-    const result: string[] = [];
-    let current = '';
-    let inQuote = false;
-    for (let i = 0; i < line.length; i++) {
-      const char = line[i];
-      if (char === '"') {
-        inQuote = !inQuote;
-      } else if (char === ',' && !inQuote) {
-        result.push(current.trim());
-        current = '';
+      if (c === '"') {
+        if (afterQuote) {
+          field += '"';
+          inQuotes = true;
+          afterQuote = false;
+        } else if (field === '') {
+          inQuotes = true;
+        } else {
+          field += c; // stray quote inside an unquoted field: keep it literally
+        }
+      } else if (c === ',') {
+        endField();
+      } else if (c === '\r' || c === '\n') {
+        line++;
+        afterCR = c === '\r';
+        endRecord();
       } else {
-        current += char;
+        afterQuote = false;
+        field += c;
       }
     }
-    result.push(current.trim());
-    return result;
   };
 
-  for (let i = 1; i < lines.length; i++) {
-    const cols = parseLine(lines[i]);
-    if (cols.length < headers.length) continue;
-
-    const row: any = {};
-    headers.forEach((h, idx) => {
-        // Map common headers to consistent keys
-        let key = h;
-        if(idx === 0) key = 'SupplierID'; // Force first col
-        
-        let val = cols[idx] ? cols[idx].replace(/^"|"$/g, '') : '';
-        row[key] = val;
-    });
+  const finish = () => {
+    if (!started) return;
+    if (inQuotes) {
+      record.push(field);
+      onRecord(record, recordLine, 'Unterminated quoted field');
+    } else if (field !== '' || record.length) {
+      endRecord();
+    }
+    field = '';
+    record = [];
+    inQuotes = false;
+  };
 
-    // Type coercion
-    row.Number = parseInt(row.Number) || 0;
-    
-    // Date Parsing (YYYYMMDD)
-    if (row.Deliverdate && row.Deliverdate.length === 8) {
-        const y = parseInt(row.Deliverdate.substring(0, 4));
-        const m = parseInt(row.Deliverdate.substring(4, 6)) - 1;
-        const d = parseInt(row.Deliverdate.substring(6, 8));
-        row.parsedDate = new Date(y, m, d);
+  return { push, finish };
+};
+
+/** Parses YYYYMMDD, YYYY-MM-DD and YYYY/MM/DD; returns undefined for anything else or impossible dates. */
+export const parseDeliverDate = (value: string): Date | undefined => {
+  const m = value.trim().match(/^(\d{4})[-/]?(\d{2})[-/]?(\d{2})$/);
+  if (!m) return undefined;
+  const y = parseInt(m[1]);
+  const mo = parseInt(m[2]) - 1;
+  const d = parseInt(m[3]);
+  const date = new Date(y, mo, d);
+  if (date.getFullYear() !== y || date.getMonth() !== mo || date.getDate() !== d) return undefined;
+  return date;
+};
+
+export type MappedRecord = { row: MedFlowRow } | { rejection: RowRejection };
+
+export const mapRecordToRow = (
+  fields: string[],
+  headerCount: number,
+  mapping: ColumnMapping,
+  line: number,
+  error?: string
+): MappedRecord => {
+  const raw = fields.join(',').slice(0, 200);
+  if (error) return { rejection: { line, reason: error, raw } };
+  if (fields.length < headerCount) {
+    return { rejection: { line, reason: `Expected ${headerCount} columns, found ${fields.length}`, raw } };
+  }
+  if (fields.length > headerCount && fields.slice(headerCount).some(f => f.trim() !== '')) {
+    return { rejection: { line, reason: `Expected ${headerCount} columns, found ${fields.length}`, raw } };
+  }
+
+  const row: any = {};
+  MEDFLOW_FIELDS.forEach(f => {
+    const idx = mapping[f];
+    row[f] = idx === null ? '' : (fields[idx] ?? '').trim();
+  });
+
+  const missing = REQUIRED_FIELDS.filter(f => f !== 'Number' && !row[f]);
+  if (missing.length) {
+    return { rejection: { line, reason: `Missing ${missing.join(', ')}`, raw } };
+  }
+
+  const qty = row.Number.replace(/,/g, '');
+  if (!/^-?\d+(\.\d+)?$/.test(qty)) {
+    return { rejection: { line, reason: `Invalid quantity "${row.Number}"`, raw } };
+  }
+  row.Number = parseFloat(qty);
+  row.parsedDate = parseDeliverDate(row.Deliverdate);
+
+  return { row: row as MedFlowRow };
+};
+
+// Only the first MAX_REJECTIONS are kept in the log; rejectedCount always has the full total
+export const MAX_REJECTIONS = 5000;
+
+/** Synchronous parse of an in-memory CSV string. Large files should go through ingestCsv (Web Worker). */
+export const parseMedFlowCSV = (text: string, mapping?: ColumnMapping): ImportResult => {
+  let headers: string[] | null = null;
+  let activeMapping = mapping ?? emptyColumnMapping();
+  const rows: MedFlowRow[] = [];
+  const rejections: RowRejection[] = [];
+  let rejectedCount = 0;
+
+  const parser = createCsvStreamParser((fields, line, error) => {
+    if (!headers) {
+      headers = fields.map(h => h.trim());
+      if (!mapping) activeMapping = guessColumnMapping(headers);
+      return;
+    }
+    const res = mapRecordToRow(fields, headers.length, activeMapping, line, error);
+    if ('row' in res) {
+      rows.push(res.row);
     } else {
-        row.parsedDate = undefined;
+      rejectedCount++;
+      if (rejections.length < MAX_REJECTIONS) rejections.push(res.rejection);
     }
+  });
+  parser.push(text);
+  parser.finish();
 
-    rows.push(row as MedFlowRow);
-  }
+  return { format: 'csv', headers: headers ?? [], mapping: activeMapping, encoding: 'utf-8', rows, rejections, rejectedCount };
+};
 
-  return rows;
+export const topN = (data: MedFlowRow[], key: MedFlowField, n: number = 5) => {
+    const counts: Record<string, number> = {};
+    data.forEach(r => {
+        const k = String(r[key]);
+        counts[k] = (counts[k] || 0) + r.Number;
+    });
+    return Object.entries(counts)
+        .sort((a, b) => b[1] - a[1])
+        .slice(0, n)
+        .map(([k, v]) => ({ key: k, units: v }));
 };
 
 export const summarizeData = (data: MedFlowRow[]): DataSummary => {
@@ -66,30 +247,27 @@ export const summarizeData = (data: MedFlowRow[]): DataSummary => {
     const customers = new Set(data.map(r => r.CustomerID)).size;
     const categories = new Set(data.map(r => r.Category)).size;
 
-    const dates = data.filter(r => r.parsedDate).map(r => r.parsedDate!.getTime());
-    const minDate = dates.length ? new Date(Math.min(...dates)).toISOString().split('T')[0] : null;
-    const maxDate = dates.length ? new Date(Math.max(...dates)).toISOString().split('T')[0] : null;
-
-    const topN = (key: keyof MedFlowRow) => {
-        const counts: Record<string, number> = {};
-        data.forEach(r => {
-            const k = String(r[key]);
-            counts[k] = (counts[k] || 0) + r.Number;
-        });
-        return Object.entries(counts)
-            .sort((a, b) => b[1] - a[1])
-            .slice(0, 5)
-            .map(([k, v]) => ({ key: k, units: v }));
-    };
+    // Reduce instead of Math.min(...dates): spreading 200k+ arguments overflows the call stack
+    let minTime = Infinity;
+    let maxTime = -Infinity;
+    data.forEach(r => {
+        if (!r.parsedDate) return;
+        const t = r.parsedDate.getTime();
+        if (t < minTime) minTime = t;
+        if (t > maxTime) maxTime = t;
+    });
+    const minDate = minTime !== Infinity ? toISODate(new Date(minTime)) : null;
+    const maxDate = maxTime !== -Infinity ? toISODate(new Date(maxTime)) : null;
 
     return {
         rows: data.length,
         total_units: totalUnits,
         unique: { suppliers, customers, categories },
         date_range: { min: minDate, max: maxDate },
-        top_suppliers: topN('SupplierID'),
-        top_customers: topN('CustomerID'),
-        top_categories: topN('Category'),
+        top_suppliers: topN(data, 'SupplierID'),
+        top_customers: topN(data, 'CustomerID'),
+        top_categories: topN(data, 'Category'),
+        top_licenses: topN(data, 'LicenseNo'),
         sample_rows: data.slice(0, 5)
     };
 };
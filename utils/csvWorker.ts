@@ -0,0 +1,77 @@
+import { MedFlowRow, ColumnMapping, RowRejection } from '../types';
+import { createCsvStreamParser, mapRecordToRow, MAX_REJECTIONS } from './csvParser';
+
+export type CsvWorkerRequest = {
+  source: File | string;
+  encoding: 'utf-8' | 'big5';
+  mapping: ColumnMapping;
+};
+
+export type CsvWorkerMessage =
+  | { type: 'rows'; rows: MedFlowRow[] }
+  | { type: 'progress'; processed: number; total: number; rows: number }
+  | { type: 'done'; rejections: RowRejection[]; rejectedCount: number }
+  | { type: 'error'; message: string };
+
+const ROW_BATCH = 5000;
+const TEXT_CHUNK = 1 << 20;
+
+const post = (msg: CsvWorkerMessage) => self.postMessage(msg);
+
+self.onmessage = async (e: MessageEvent<CsvWorkerRequest>) => {
+  const { source, encoding, mapping } = e.data;
+  let headerCount: number | null = null;
+  let batch: MedFlowRow[] = [];
+  let rowCount = 0;
+  const rejections: RowRejection[] = [];
+  let rejectedCount = 0;
+
+  const flush = () => {
+    if (!batch.length) return;
+    post({ type: 'rows', rows: batch });
+    batch = [];
+  };
+
+  const parser = createCsvStreamParser((fields, line, error) => {
+    if (headerCount === null) {
+      headerCount = fields.length;
+      return;
+    }
+    const res = mapRecordToRow(fields, headerCount, mapping, line, error);
+    if ('row' in res) {
+      batch.push(res.row);
+      rowCount++;
+      if (batch.length >= ROW_BATCH) flush();
+    } else {
+      rejectedCount++;
+      if (rejections.length < MAX_REJECTIONS) rejections.push(res.rejection);
+    }
+  });
+
+  try {
+    if (typeof source === 'string') {
+      for (let i = 0; i < source.length; i += TEXT_CHUNK) {
+        parser.push(source.slice(i, i + TEXT_CHUNK));
+        post({ type: 'progress', processed: Math.min(i + TEXT_CHUNK, source.length), total: source.length, rows: rowCount });
+      }
+    } else {
+      // TextDecoder strips a leading UTF-8 BOM and keeps multi-byte sequences split across chunks intact
+      const decoder = new TextDecoder(encoding);
+      const reader = source.stream().getReader();
+      let processed = 0;
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        processed += value.byteLength;
+        parser.push(decoder.decode(value, { stream: true }));
+        post({ type: 'progress', processed, total: source.size, rows: rowCount });
+      }
+      parser.push(decoder.decode());
+    }
+    parser.finish();
+    flush();
+    post({ type: 'done', rejections, rejectedCount });
+  } catch (err) {
+    post({ type: 'error', message: err instanceof Error ? err.message : String(err) });
+  }
+};
@@ -0,0 +1,135 @@
+import * as XLSX from 'xlsx';
+import { MedFlowRow, ColumnMapping, ImportFormat, ImportResult, RowRejection } from '../types';
+import { MEDFLOW_FIELDS, MAX_REJECTIONS, mapRecordToRow } from './csvParser';
+
+// In-memory tabular form shared by XLSX and JSON imports; goes through the same column mapping as CSV
+export interface TabularData {
+  headers: string[];
+  records: { line: number; fields: string[]; error?: string }[];
+}
+
+const pad2 = (n: number) => String(n).padStart(2, '0');
+
+const cellToString = (v: unknown): string => {
+  if (v === null || v === undefined) return '';
+  // Excel date cells become YYYYMMDD so they match Deliverdate in CSV exports
+  if (v instanceof Date) return `${v.getFullYear()}${pad2(v.getMonth() + 1)}${pad2(v.getDate())}`;
+  if (typeof v === 'object') return JSON.stringify(v);
+  return String(v);
+};
+
+// --- Import ---
+
+export const readWorkbook = async (file: File): Promise<XLSX.WorkBook> =>
+  XLSX.read(await file.arrayBuffer(), { type: 'array', cellDates: true });
+
+export const sheetToTable = (workbook: XLSX.WorkBook, sheetName: string): TabularData => {
+  const sheet = workbook.Sheets[sheetName];
+  if (!sheet) return { headers: [], records: [] };
+  const matrix = XLSX.utils.sheet_to_json<unknown[]>(sheet, { header: 1, raw: true, defval: '', blankrows: false });
+  if (!matrix.length) return { headers: [], records: [] };
+
+  const headers = matrix[0].map(h => cellToString(h).trim());
+  const records = matrix.slice(1).map((r, i) => ({ line: i + 2, fields: r.map(cellToString) }));
+  return { headers, records };
+};
+
+type JsonRecord = { line: number; value?: unknown; error?: string };
+
+const objectsToTable = (objects: JsonRecord[]): TabularData => {
+  const headers: string[] = [];
+  const seen = new Set<string>();
+  objects.forEach(({ value }) => {
+    if (value && typeof value === 'object' && !Array.isArray(value)) {
+      Object.keys(value).forEach(k => {
+        if (!seen.has(k)) { seen.add(k); headers.push(k); }
+      });
+    }
+  });
+
+  const records = objects.map(({ line, value, error }) => {
+    if (error) return { line, fields: [], error };
+    if (!value || typeof value !== 'object' || Array.isArray(value)) {
+      return { line, fields: [], error: 'Expected a JSON object' };
+    }
+    const obj = value as Record<string, unknown>;
+    return { line, fields: headers.map(h => cellToString(obj[h])) };
+  });
+  return { headers, records };
+};
+
+/** Parses a JSON array of row objects, or NDJSON (one object per line) when `ndjson` is set or the text is not a single JSON value. */
+export const jsonToTable = (text: string, ndjson: boolean): { table: TabularData; format: ImportFormat } => {
+  const body = text.replace(/^\uFEFF/, '');
+  if (!ndjson) {
+    try {
+      const parsed = JSON.parse(body);
+      const list = Array.isArray(parsed) ? parsed : [parsed];
+      return { table: objectsToTable(list.map((value, i) => ({ line: i + 1, value }))), format: 'json' };
+    } catch {
+      // fall through to NDJSON
+    }
+  }
+
+  const objects = body.split(/\r?\n/).map((l, i): JsonRecord | null => {
+    const line = i + 1;
+    if (!l.trim()) return null;
+    try {
+      return { line, value: JSON.parse(l) };
+    } catch {
+      return { line, error: 'Invalid JSON' };
+    }
+  }).filter((o): o is JsonRecord => o !== null);
+  return { table: objectsToTable(objects), format: 'ndjson' };
+};
+
+export const tableToResult = (table: TabularData, mapping: ColumnMapping, format: ImportFormat): ImportResult => {
+  const rows: MedFlowRow[] = [];
+  const rejections: RowRejection[] = [];
+  let rejectedCount = 0;
+
+  table.records.forEach(({ line, fields, error }) => {
+    const res = mapRecordToRow(fields, table.headers.length, mapping, line, error);
+    if ('row' in res) {
+      rows.push(res.row);
+    } else {
+      rejectedCount++;
+      if (rejections.length < MAX_REJECTIONS) rejections.push(res.rejection);
+    }
+  });
+
+  return { format, headers: table.headers, mapping, encoding: 'utf-8', rows, rejections, rejectedCount };
+};
+
+// --- Export (column order follows DEFAULT_CSV) ---
+
+const csvEscape = (value: string) =>
+  /[",\r\n]|^\s|\s$/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+export const rowsToCSV = (rows: MedFlowRow[]): string => {
+  const lines = [MEDFLOW_FIELDS.join(',')];
+  rows.forEach(r => lines.push(MEDFLOW_FIELDS.map(f => csvEscape(String(r[f] ?? ''))).join(',')));
+  return lines.join('\r\n') + '\r\n';
+};
+
+export const rowsToNDJSON = (rows: MedFlowRow[]): string =>
+  rows.map(r => JSON.stringify(Object.fromEntries(MEDFLOW_FIELDS.map(f => [f, r[f]])))).join('\n') + '\n';
+
+export const rowsToXLSX = (rows: MedFlowRow[]): ArrayBuffer => {
+  const sheet = XLSX.utils.aoa_to_sheet([
+    MEDFLOW_FIELDS,
+    ...rows.map(r => MEDFLOW_FIELDS.map(f => r[f])),
+  ]);
+  const workbook = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(workbook, sheet, 'MedFlow');
+  return XLSX.write(workbook, { type: 'array', bookType: 'xlsx' });
+};
+
+export const downloadBlob = (data: BlobPart, filename: string, mime: string) => {
+  const url = URL.createObjectURL(new Blob([data], { type: mime }));
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  a.click();
+  URL.revokeObjectURL(url);
+};
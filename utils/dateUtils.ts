@@ -0,0 +1,51 @@
+export type DatePresetId = 'last_7' | 'last_30' | 'last_90' | 'mtd' | 'qtd';
+
+export const DATE_PRESETS: { id: DatePresetId; label: string }[] = [
+  { id: 'last_7', label: '7D' },
+  { id: 'last_30', label: '30D' },
+  { id: 'last_90', label: '90D' },
+  { id: 'mtd', label: 'MTD' },
+  { id: 'qtd', label: 'QTD' },
+];
+
+const pad2 = (n: number) => String(n).padStart(2, '0');
+
+// Local-time YYYY-MM-DD (toISOString would shift local midnight to the previous day east of UTC)
+export const toISODate = (d: Date): string =>
+  `${d.getFullYear()}-${pad2(d.getMonth() + 1)}-${pad2(d.getDate())}`;
+
+export const parseISODate = (s: string): Date | undefined => {
+  const m = s.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  if (!m) return undefined;
+  return new Date(parseInt(m[1]), parseInt(m[2]) - 1, parseInt(m[3]));
+};
+
+export const addDays = (d: Date, days: number): Date =>
+  new Date(d.getFullYear(), d.getMonth(), d.getDate() + days);
+
+/**
+ * Resolves a preset to an inclusive [min, max] range ending at `anchor`.
+ * The anchor is normally the latest delivery date in the loaded data, since exports lag behind today.
+ */
+export const resolveDatePreset = (preset: DatePresetId, anchor: Date): { date_min: string; date_max: string } => {
+  const end = new Date(anchor.getFullYear(), anchor.getMonth(), anchor.getDate());
+  let start: Date;
+  switch (preset) {
+    case 'last_7': start = addDays(end, -6); break;
+    case 'last_30': start = addDays(end, -29); break;
+    case 'last_90': start = addDays(end, -89); break;
+    case 'mtd': start = new Date(end.getFullYear(), end.getMonth(), 1); break;
+    case 'qtd': start = new Date(end.getFullYear(), Math.floor(end.getMonth() / 3) * 3, 1); break;
+  }
+  return { date_min: toISODate(start), date_max: toISODate(end) };
+};
+
+/** Half-open [start, end) timestamps for an inclusive ISO date range; null bounds are unbounded. */
+export const dateRangeBounds = (date_min: string | null, date_max: string | null): { start: number; end: number } => {
+  const min = date_min ? parseISODate(date_min) : undefined;
+  const max = date_max ? parseISODate(date_max) : undefined;
+  return {
+    start: min ? min.getTime() : -Infinity,
+    end: max ? addDays(max, 1).getTime() : Infinity,
+  };
+};
@@ -0,0 +1,23 @@
+import { FilterState, MedFlowRow } from '../types';
+import { dateRangeBounds } from './dateUtils';
+import { matchesSearchText } from './semanticSearch';
+
+/** Global sidebar filters plus the free-text terms from semantic search. */
+export const applyFilters = (data: MedFlowRow[], filters: FilterState, searchTerms: string[]): MedFlowRow[] => {
+  if (!data.length) return [];
+  const { start, end } = dateRangeBounds(filters.date_min, filters.date_max);
+  const hasDateRange = !!(filters.date_min || filters.date_max);
+  return data.filter(r => {
+    if (hasDateRange) {
+      // Rows without a parseable date cannot fall inside an explicit range
+      const t = r.parsedDate?.getTime();
+      if (t === undefined || t < start || t >= end) return false;
+    }
+    if (filters.suppliers.length && !filters.suppliers.includes(r.SupplierID)) return false;
+    if (filters.customers.length && !filters.customers.includes(r.CustomerID)) return false;
+    if (filters.categories.length && !filters.categories.includes(r.Category)) return false;
+    if (filters.licenses.length && !filters.licenses.includes(r.LicenseNo)) return false;
+    if (searchTerms.length && !matchesSearchText(r, searchTerms)) return false;
+    return true;
+  });
+};
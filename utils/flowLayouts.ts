@@ -0,0 +1,221 @@
+import { GraphData, GraphLayout, GraphLink, GraphNode, LAYOUT_HEIGHT, LAYOUT_WIDTH, layoutBounds, nodeRadius } from './networkGraph';
+
+export type NetworkLayoutKind = 'force' | 'layered' | 'sankey' | 'radial';
+
+export const NETWORK_LAYOUT_LABELS: Record<NetworkLayoutKind, string> = {
+  force: 'Force-directed',
+  layered: 'Layered columns',
+  sankey: 'Sankey flow',
+  radial: 'Radial ego',
+};
+
+// Column centres for suppliers, categories and customers
+const COLUMN_X = [LAYOUT_WIDTH * 0.15, LAYOUT_WIDTH * 0.5, LAYOUT_WIDTH * 0.85];
+const MARGIN_Y = 20;
+
+/**
+ * Nodes per column (suppliers, categories, customers). Suppliers go heaviest first; each later column is ordered by
+ * the unit-weighted mean position of its upstream neighbours, which keeps most flows from crossing.
+ */
+const orderColumns = (graph: GraphData): GraphNode[][] => {
+  const columns: GraphNode[][] = [[], [], []];
+  graph.nodes.forEach(n => columns[n.group - 1].push(n));
+  columns[0].sort((a, b) => b.val - a.val);
+
+  const incoming = new Map<string, GraphLink[]>();
+  graph.links.forEach(l => {
+    let list = incoming.get(l.target);
+    if (!list) incoming.set(l.target, list = []);
+    list.push(l);
+  });
+
+  for (let c = 1; c < columns.length; c++) {
+    const rank = new Map(columns[c - 1].map((n, i) => [n.id, i]));
+    const center = new Map(columns[c].map(n => {
+      const upstream = (incoming.get(n.id) ?? []).filter(l => rank.has(l.source));
+      const units = upstream.reduce((s, l) => s + l.value, 0);
+      return [n.id, units > 0 ? upstream.reduce((s, l) => s + rank.get(l.source)! * l.value, 0) / units : Infinity];
+    }));
+    columns[c].sort((a, b) => center.get(a.id)! - center.get(b.id)! || b.val - a.val);
+  }
+  return columns;
+};
+
+// Tall columns stretch up to this height, then nodes start to overlap rather than flatten the view into a line
+const MAX_COLUMN_HEIGHT = LAYOUT_HEIGHT * 4;
+
+/** Suppliers, categories and customers in three fixed columns, evenly spaced down each column. */
+export const layeredLayout = (graph: GraphData): GraphLayout => {
+  const positions: GraphLayout['positions'] = {};
+  orderColumns(graph).forEach((column, c) => {
+    const needed = column.reduce((s, n) => s + nodeRadius(n) * 2 + 4, 0);
+    const height = Math.min(MAX_COLUMN_HEIGHT, Math.max(LAYOUT_HEIGHT - MARGIN_Y * 2, needed));
+    column.forEach((n, i) => {
+      positions[n.id] = [COLUMN_X[c], MARGIN_Y + (i + 0.5) * height / column.length];
+    });
+  });
+  return { key: `layered:${graph.key}`, positions, bounds: layoutBounds(graph.nodes, positions) };
+};
+
+/** Subgraph within `depth` hops of the centre, ignoring edge direction. */
+export const egoGraph = (graph: GraphData, centerId: string, depth: number = 2): GraphData & { rings: string[][] } => {
+  const neighbours = new Map<string, string[]>();
+  const add = (a: string, b: string) => {
+    let list = neighbours.get(a);
+    if (!list) neighbours.set(a, list = []);
+    list.push(b);
+  };
+  graph.links.forEach(l => { add(l.source, l.target); add(l.target, l.source); });
+
+  const seen = new Set([centerId]);
+  const rings: string[][] = [[centerId]];
+  for (let d = 0; d < depth; d++) {
+    const next: string[] = [];
+    rings[d].forEach(id => (neighbours.get(id) ?? []).forEach(n => {
+      if (seen.has(n)) return;
+      seen.add(n);
+      next.push(n);
+    }));
+    if (!next.length) break;
+    rings.push(next);
+  }
+
+  const nodes = graph.nodes.filter(n => seen.has(n.id));
+  const links = graph.links.filter(l => seen.has(l.source) && seen.has(l.target));
+  return {
+    nodes,
+    links,
+    maxLinkValue: graph.maxLinkValue,
+    key: `ego:${centerId}:${depth}:${graph.key}`,
+    rings,
+  };
+};
+
+const RING_STEP = 150;
+
+/** Centre node in the middle, each hop on its own ring; outer nodes sit near the inner neighbours they connect to. */
+export const radialLayout = (ego: ReturnType<typeof egoGraph>): GraphLayout => {
+  const byId = new Map(ego.nodes.map(n => [n.id, n]));
+  const neighbours = new Map<string, string[]>();
+  const add = (a: string, b: string) => {
+    let list = neighbours.get(a);
+    if (!list) neighbours.set(a, list = []);
+    list.push(b);
+  };
+  ego.links.forEach(l => { add(l.source, l.target); add(l.target, l.source); });
+
+  const cx = LAYOUT_WIDTH / 2;
+  const cy = LAYOUT_HEIGHT / 2;
+  const positions: GraphLayout['positions'] = { [ego.rings[0][0]]: [cx, cy] };
+  const angles = new Map<string, number>([[ego.rings[0][0], 0]]);
+  let radius = 0;
+
+  ego.rings.slice(1).forEach((ring, i) => {
+    const inner = new Set(ego.rings[i]);
+    const anchor = (id: string) => {
+      const placed = (neighbours.get(id) ?? []).filter(n => inner.has(n));
+      return placed.length ? placed.reduce((s, n) => s + angles.get(n)!, 0) / placed.length : 0;
+    };
+    const ordered = i === 0
+      // First ring: grouped by kind, heaviest first
+      ? [...ring].sort((a, b) => byId.get(a)!.group - byId.get(b)!.group || byId.get(b)!.val - byId.get(a)!.val)
+      : ring.map(id => ({ id, angle: anchor(id) })).sort((a, b) => a.angle - b.angle).map(a => a.id);
+    const circumference = ordered.reduce((s, id) => s + nodeRadius(byId.get(id)!) * 2 + 4, 0);
+    radius = Math.max(radius + RING_STEP, circumference / (Math.PI * 2));
+    ordered.forEach((id, k) => {
+      const angle = (k / ordered.length) * Math.PI * 2 - Math.PI / 2;
+      angles.set(id, angle);
+      positions[id] = [cx + radius * Math.cos(angle), cy + radius * Math.sin(angle)];
+    });
+  });
+
+  return { key: `radial:${ego.key}`, positions, bounds: layoutBounds(ego.nodes, positions) };
+};
+
+export interface SankeyNode {
+  node: GraphNode;
+  x0: number;
+  x1: number;
+  y0: number;
+  y1: number;
+}
+
+export interface SankeyLink {
+  link: GraphLink;
+  // Ribbon centre line: leaves the source at (x0, y0), enters the target at (x1, y1)
+  x0: number;
+  y0: number;
+  x1: number;
+  y1: number;
+  width: number;
+}
+
+export interface SankeyLayout {
+  nodes: SankeyNode[];
+  links: SankeyLink[];
+  width: number;
+  height: number;
+}
+
+const SANKEY_NODE_WIDTH = 12;
+const SANKEY_MAX_PADDING = 8;
+
+/**
+ * Supplier → category → customer flows with node heights and ribbon widths proportional to units.
+ * Nodes without a visible edge are left out; padding shrinks in crowded columns so every column fits the height.
+ */
+export const sankeyLayout = (graph: GraphData): SankeyLayout => {
+  const inflow = new Map<string, number>();
+  const outflow = new Map<string, number>();
+  graph.links.forEach(l => {
+    outflow.set(l.source, (outflow.get(l.source) ?? 0) + l.value);
+    inflow.set(l.target, (inflow.get(l.target) ?? 0) + l.value);
+  });
+  const flow = (n: GraphNode) => Math.max(inflow.get(n.id) ?? 0, outflow.get(n.id) ?? 0);
+
+  const height = LAYOUT_HEIGHT - MARGIN_Y * 2;
+  const columns = orderColumns(graph).map(column => column.filter(n => flow(n) > 0));
+  const padding = columns.map(column => column.length > 1 ? Math.min(SANKEY_MAX_PADDING, height * 0.3 / (column.length - 1)) : 0);
+  const scale = Math.min(...columns.map((column, c) => {
+    const total = column.reduce((s, n) => s + flow(n), 0);
+    return total > 0 ? (height - padding[c] * (column.length - 1)) / total : Infinity;
+  }));
+  const k = Number.isFinite(scale) ? scale : 0;
+
+  const placed = new Map<string, SankeyNode>();
+  columns.forEach((column, c) => {
+    const used = column.reduce((s, n) => s + flow(n) * k, 0) + padding[c] * Math.max(0, column.length - 1);
+    let y = MARGIN_Y + (height - used) / 2;
+    column.forEach(n => {
+      const h = flow(n) * k;
+      placed.set(n.id, { node: n, x0: COLUMN_X[c] - SANKEY_NODE_WIDTH / 2, x1: COLUMN_X[c] + SANKEY_NODE_WIDTH / 2, y0: y, y1: y + h });
+      y += h + padding[c];
+    });
+  });
+
+  // Stack ribbons inside each node in the order of the node at their other end, so they do not cross at the node
+  const visible = graph.links.filter(l => placed.has(l.source) && placed.has(l.target));
+  const sourceOffset = new Map<string, number>();
+  const targetOffset = new Map<string, number>();
+  const mid = (id: string) => (placed.get(id)!.y0 + placed.get(id)!.y1) / 2;
+  const starts = new Map<GraphLink, number>();
+  [...visible].sort((a, b) => mid(a.target) - mid(b.target)).forEach(l => {
+    const offset = sourceOffset.get(l.source) ?? 0;
+    starts.set(l, placed.get(l.source)!.y0 + offset + l.value * k / 2);
+    sourceOffset.set(l.source, offset + l.value * k);
+  });
+  const links = [...visible].sort((a, b) => mid(a.source) - mid(b.source)).map(l => {
+    const offset = targetOffset.get(l.target) ?? 0;
+    targetOffset.set(l.target, offset + l.value * k);
+    return {
+      link: l,
+      x0: placed.get(l.source)!.x1,
+      y0: starts.get(l)!,
+      x1: placed.get(l.target)!.x0,
+      y1: placed.get(l.target)!.y0 + offset + l.value * k / 2,
+      width: Math.max(0.5, l.value * k),
+    };
+  });
+
+  return { nodes: Array.from(placed.values()), links, width: LAYOUT_WIDTH, height: LAYOUT_HEIGHT };
+};
@@ -0,0 +1,194 @@
+import { ForecastModel, ForecastResult, SeriesForecast, TimeBucket, TimeSeries } from '../types';
+import { bucketLabel, nextBucket } from './timeSeries';
+
+// ~95% prediction interval
+const Z = 1.96;
+
+export const FORECAST_HORIZON: Record<TimeBucket, number> = { day: 14, week: 8, month: 3 };
+
+// Season length used by Holt-Winters; weekly data has no usable short season
+const SEASON_LENGTH: Record<TimeBucket, number> = { day: 7, week: 0, month: 12 };
+
+export const FORECAST_MODEL_LABELS: Record<ForecastModel, string> = {
+  auto: 'Auto (best fit)',
+  moving_average: 'Moving average',
+  linear_trend: 'Linear trend',
+  holt_winters: 'Holt-Winters',
+};
+
+const rmseOf = (errors: number[]) =>
+  errors.length ? Math.sqrt(errors.reduce((s, e) => s + e * e, 0) / errors.length) : 0;
+
+const clampBands = (model: ForecastResult['model'], values: number[], spread: (h: number) => number, rmse: number): ForecastResult => ({
+  model,
+  values: values.map(v => Math.max(0, v)),
+  lower: values.map((v, i) => Math.max(0, v - spread(i + 1))),
+  upper: values.map((v, i) => Math.max(0, v + spread(i + 1))),
+  rmse,
+});
+
+const linearFit = (y: number[]) => {
+  const n = y.length;
+  if (n < 2) return { slope: 0, intercept: y[0] ?? 0, xMean: 0, sxx: 0 };
+  const xMean = (n - 1) / 2;
+  const yMean = y.reduce((s, v) => s + v, 0) / n;
+  let sxy = 0;
+  let sxx = 0;
+  y.forEach((v, x) => {
+    sxy += (x - xMean) * (v - yMean);
+    sxx += (x - xMean) ** 2;
+  });
+  const slope = sxy / sxx;
+  return { slope, intercept: yMean - slope * xMean, xMean, sxx };
+};
+
+export const movingAverage = (y: number[], horizon: number, window: number = 3): ForecastResult => {
+  const w = Math.max(1, Math.min(window, y.length));
+  const mean = (from: number, to: number) => {
+    let s = 0;
+    for (let i = from; i < to; i++) s += y[i];
+    return s / (to - from);
+  };
+  const errors: number[] = [];
+  for (let t = w; t < y.length; t++) errors.push(y[t] - mean(t - w, t));
+  const rmse = rmseOf(errors);
+  const level = y.length ? mean(y.length - w, y.length) : 0;
+  return clampBands('moving_average', Array(horizon).fill(level), h => Z * rmse * Math.sqrt(1 + (h - 1) / w), rmse);
+};
+
+export const linearTrend = (y: number[], horizon: number): ForecastResult => {
+  const n = y.length;
+  const { slope, intercept, xMean, sxx } = linearFit(y);
+
+  // Expanding-window one-step errors, so the RMSE is comparable with the smoothing models
+  const errors: number[] = [];
+  for (let t = 2; t < n; t++) {
+    const fit = linearFit(y.slice(0, t));
+    errors.push(y[t] - (fit.intercept + fit.slope * t));
+  }
+
+  const residuals = y.map((v, x) => v - (intercept + slope * x));
+  const sd = n > 2 ? Math.sqrt(residuals.reduce((s, e) => s + e * e, 0) / (n - 2)) : 0;
+  const values = Array.from({ length: horizon }, (_, i) => intercept + slope * (n + i));
+  const spread = (h: number) => {
+    const x = n - 1 + h;
+    return Z * sd * Math.sqrt(1 + 1 / Math.max(1, n) + (sxx ? (x - xMean) ** 2 / sxx : 0));
+  };
+  return clampBands('linear_trend', values, spread, rmseOf(errors));
+};
+
+const holtWintersRun = (y: number[], m: number, alpha: number, beta: number, gamma: number) => {
+  const seasonal = m >= 2 && y.length >= 2 * m;
+  const errors: number[] = [];
+  let level: number;
+  let trend: number;
+  const season: number[] = [];
+  let start: number;
+
+  if (seasonal) {
+    const first = y.slice(0, m).reduce((s, v) => s + v, 0) / m;
+    const second = y.slice(m, 2 * m).reduce((s, v) => s + v, 0) / m;
+    level = first;
+    trend = (second - first) / m;
+    for (let i = 0; i < m; i++) season.push(y[i] - first);
+    start = m;
+  } else {
+    level = y[0];
+    trend = y[1] - y[0];
+    start = 1;
+  }
+
+  for (let t = start; t < y.length; t++) {
+    const s = seasonal ? season[t - m] : 0;
+    errors.push(y[t] - (level + trend + s));
+    const prevLevel = level;
+    level = alpha * (y[t] - s) + (1 - alpha) * (level + trend);
+    trend = beta * (level - prevLevel) + (1 - beta) * trend;
+    if (seasonal) season[t] = gamma * (y[t] - level) + (1 - gamma) * s;
+  }
+
+  const forecast = (h: number) =>
+    level + h * trend + (seasonal ? season[y.length - m + ((h - 1) % m)] : 0);
+  return { errors, forecast };
+};
+
+/** Additive Holt-Winters when two full seasons are available, otherwise Holt's linear method; parameters by grid search. */
+export const holtWinters = (y: number[], horizon: number, seasonLength: number = 0): ForecastResult => {
+  if (y.length < 3) return { ...movingAverage(y, horizon), model: 'holt_winters' };
+
+  let best: ReturnType<typeof holtWintersRun> | null = null;
+  let bestRmse = Infinity;
+  for (const alpha of [0.2, 0.4, 0.6, 0.8]) {
+    for (const beta of [0.05, 0.15, 0.3]) {
+      for (const gamma of seasonLength ? [0.1, 0.3] : [0]) {
+        const run = holtWintersRun(y, seasonLength, alpha, beta, gamma);
+        const rmse = rmseOf(run.errors);
+        if (rmse < bestRmse) {
+          bestRmse = rmse;
+          best = run;
+        }
+      }
+    }
+  }
+
+  const values = Array.from({ length: horizon }, (_, i) => best!.forecast(i + 1));
+  return clampBands('holt_winters', values, h => Z * bestRmse * Math.sqrt(h), bestRmse);
+};
+
+export const fitForecast = (y: number[], model: ForecastModel, horizon: number, bucket: TimeBucket): ForecastResult => {
+  if (model === 'moving_average') return movingAverage(y, horizon);
+  if (model === 'linear_trend') return linearTrend(y, horizon);
+  if (model === 'holt_winters') return holtWinters(y, horizon, SEASON_LENGTH[bucket]);
+
+  // Auto: lowest one-step-ahead RMSE; moving average wins ties and very short histories
+  const candidates = [movingAverage(y, horizon)];
+  if (y.length >= 4) candidates.push(linearTrend(y, horizon), holtWinters(y, horizon, SEASON_LENGTH[bucket]));
+  return candidates.reduce((best, c) => c.rmse < best.rmse ? c : best);
+};
+
+/** Forecasts the total plus every split series of a bucketed time series. */
+export const forecastTimeSeries = (ts: TimeSeries, model: ForecastModel, horizon: number = FORECAST_HORIZON[ts.bucket]): SeriesForecast[] => {
+  if (!ts.points.length) return [];
+
+  const periods: string[] = [];
+  let d = new Date(ts.points[ts.points.length - 1].start);
+  for (let i = 0; i < horizon; i++) {
+    d = nextBucket(d, ts.bucket);
+    periods.push(bucketLabel(d, ts.bucket));
+  }
+
+  const keys = ['total', ...ts.series];
+  return keys.map(key => ({
+    key,
+    periods,
+    ...fitForecast(ts.points.map(p => Number(p[key]) || 0), model, horizon, ts.bucket),
+  }));
+};
+
+const round1 = (v: number) => Math.round(v * 10) / 10;
+
+/**
+ * Compact numeric brief for the LLM: recent history, the forecast with bands and per-series outlook.
+ * The model narrates these numbers instead of estimating its own.
+ */
+export const buildForecastBrief = (ts: TimeSeries, forecasts: SeriesForecast[], historyTail: number = 12) => {
+  const tail = ts.points.slice(-historyTail);
+  const last = ts.points[ts.points.length - 1];
+  return {
+    bucket: ts.bucket,
+    history: tail.map(p => ({ period: p.period, units: p.total })),
+    forecasts: forecasts.map(f => {
+      const lastActual = last ? Number(last[f.key]) || 0 : 0;
+      const next = f.values[0] ?? 0;
+      return {
+        series: f.key,
+        model: f.model,
+        rmse: round1(f.rmse),
+        last_period_units: lastActual,
+        next_period: { period: f.periods[0], units: round1(next), lower: round1(f.lower[0] ?? 0), upper: round1(f.upper[0] ?? 0) },
+        horizon_total_units: round1(f.values.reduce((s, v) => s + v, 0)),
+        change_vs_last_pct: lastActual ? round1((next - lastActual) / lastActual * 100) : null,
+      };
+    }),
+  };
+};
@@ -0,0 +1,190 @@
+import { MedFlowRow } from '../types';
+import { GraphData, GraphNode, NODE_RADIUS_RANGE, nodeRadius } from './networkGraph';
+
+export interface NodeMetrics {
+  node: GraphNode;
+  // Distinct neighbours, ignoring edge direction
+  degree: number;
+  // Summed units on every incident edge
+  weightedDegree: number;
+  // Share of shortest paths between other node pairs that pass through this node, 0-1
+  betweenness: number;
+}
+
+export type NodeMetricKey = 'degree' | 'weightedDegree' | 'betweenness';
+
+export const NODE_METRIC_LABELS: Record<NodeMetricKey, string> = {
+  degree: 'Degree',
+  weightedDegree: 'Weighted degree',
+  betweenness: 'Betweenness',
+};
+
+export interface CategoryConcentration {
+  category: string;
+  units: number;
+  suppliers: number;
+  // Herfindahl-Hirschman index on supplier unit shares in percent, 0-10000
+  hhi: number;
+  topSupplier: string;
+  topShare: number;
+}
+
+export interface SupplierDependency {
+  kind: 'category' | 'customer';
+  id: string;
+  supplier: string;
+  units: number;
+}
+
+export interface GraphAnalytics {
+  nodes: NodeMetrics[];
+  // Betweenness is estimated from a sample of source nodes on large graphs
+  sampled: boolean;
+  categories: CategoryConcentration[];
+  dependencies: SupplierDependency[];
+}
+
+// Exact betweenness costs one BFS per node; past this many sources an evenly spread sample stands in for the rest
+const BETWEENNESS_SOURCE_LIMIT = 400;
+
+// US DOJ/FTC merger guideline bands
+export const HHI_MODERATE = 1500;
+export const HHI_HIGH = 2500;
+
+export const hhiLevel = (hhi: number): 'low' | 'moderate' | 'high' =>
+  hhi > HHI_HIGH ? 'high' : hhi >= HHI_MODERATE ? 'moderate' : 'low';
+
+/** Brandes betweenness on the undirected, unweighted graph, normalised by the number of node pairs. */
+const betweenness = (n: number, adjacency: number[][]): { scores: Float64Array; sampled: boolean } => {
+  const scores = new Float64Array(n);
+  const step = Math.max(1, n / BETWEENNESS_SOURCE_LIMIT);
+  const sources = Math.min(n, BETWEENNESS_SOURCE_LIMIT);
+  const sigma = new Float64Array(n);
+  const delta = new Float64Array(n);
+  const dist = new Int32Array(n);
+  const order = new Int32Array(n);
+
+  for (let i = 0; i < sources; i++) {
+    const s = Math.floor(i * step);
+    sigma.fill(0);
+    delta.fill(0);
+    dist.fill(-1);
+    sigma[s] = 1;
+    dist[s] = 0;
+    order[0] = s;
+    let head = 0;
+    let tail = 1;
+    while (head < tail) {
+      const v = order[head++];
+      for (const w of adjacency[v]) {
+        if (dist[w] < 0) {
+          dist[w] = dist[v] + 1;
+          order[tail++] = w;
+        }
+        if (dist[w] === dist[v] + 1) sigma[w] += sigma[v];
+      }
+    }
+    // Predecessors are the neighbours one hop closer, so no per-source lists are needed
+    for (let k = tail - 1; k > 0; k--) {
+      const w = order[k];
+      for (const v of adjacency[w]) {
+        if (dist[v] === dist[w] - 1) delta[v] += sigma[v] / sigma[w] * (1 + delta[w]);
+      }
+      scores[w] += delta[w];
+    }
+  }
+
+  // Each undirected pair is counted from both ends; sampling scales the partial sums back up
+  const pairs = (n - 1) * (n - 2);
+  const scale = pairs > 0 ? (n / sources) / pairs : 0;
+  for (let v = 0; v < n; v++) scores[v] *= scale;
+  return { scores, sampled: sources < n };
+};
+
+/** Centrality of every node in the graph as drawn, so it follows the node limit and edge threshold. */
+export const computeCentrality = (graph: GraphData): { nodes: NodeMetrics[]; sampled: boolean } => {
+  const index = new Map(graph.nodes.map((n, i) => [n.id, i]));
+  const adjacency: number[][] = graph.nodes.map(() => []);
+  const weighted = new Float64Array(graph.nodes.length);
+  graph.links.forEach(l => {
+    const a = index.get(l.source)!;
+    const b = index.get(l.target)!;
+    adjacency[a].push(b);
+    adjacency[b].push(a);
+    weighted[a] += l.value;
+    weighted[b] += l.value;
+  });
+
+  const { scores, sampled } = betweenness(graph.nodes.length, adjacency);
+  return {
+    nodes: graph.nodes.map((node, i) => ({ node, degree: adjacency[i].length, weightedDegree: weighted[i], betweenness: scores[i] })),
+    sampled,
+  };
+};
+
+/**
+ * Supplier concentration per category and single-supplier dependencies, from every row rather than the drawn graph,
+ * so the node limit cannot hide a second supplier. Pass rows without a supplier filter applied, or every category
+ * reads as single-sourced.
+ */
+export const supplierConcentration = (data: MedFlowRow[]): Pick<GraphAnalytics, 'categories' | 'dependencies'> => {
+  const byCategory = new Map<string, Map<string, number>>();
+  const byCustomer = new Map<string, Map<string, number>>();
+  const add = (groups: Map<string, Map<string, number>>, key: string, supplier: string, units: number) => {
+    let suppliers = groups.get(key);
+    if (!suppliers) groups.set(key, suppliers = new Map());
+    suppliers.set(supplier, (suppliers.get(supplier) ?? 0) + units);
+  };
+  data.forEach(r => {
+    add(byCategory, r.Category, r.SupplierID, r.Number);
+    add(byCustomer, r.CustomerID, r.SupplierID, r.Number);
+  });
+
+  const categories: CategoryConcentration[] = [];
+  byCategory.forEach((suppliers, category) => {
+    const units = Array.from(suppliers.values()).reduce((s, u) => s + u, 0);
+    if (units <= 0) return;
+    let hhi = 0;
+    let topSupplier = '';
+    let topUnits = -Infinity;
+    suppliers.forEach((u, supplier) => {
+      hhi += (u / units * 100) ** 2;
+      if (u > topUnits) {
+        topUnits = u;
+        topSupplier = supplier;
+      }
+    });
+    categories.push({ category, units, suppliers: suppliers.size, hhi, topSupplier, topShare: topUnits / units });
+  });
+  categories.sort((a, b) => b.hhi - a.hhi || b.units - a.units);
+
+  const dependencies: SupplierDependency[] = [];
+  const single = (kind: SupplierDependency['kind'], groups: Map<string, Map<string, number>>) => groups.forEach((suppliers, id) => {
+    if (suppliers.size !== 1) return;
+    const [[supplier, units]] = Array.from(suppliers.entries());
+    if (units > 0) dependencies.push({ kind, id, supplier, units });
+  });
+  single('category', byCategory);
+  single('customer', byCustomer);
+  dependencies.sort((a, b) => b.units - a.units);
+
+  return { categories, dependencies };
+};
+
+/** `marketData` feeds the concentration figures (see supplierConcentration); centrality follows `graph`. */
+export const buildGraphAnalytics = (marketData: MedFlowRow[], graph: GraphData): GraphAnalytics => ({
+  ...computeCentrality(graph),
+  ...supplierConcentration(marketData),
+});
+
+/** Node radius on a square-root scale of the metric, over the same range as the default unit-based size. */
+export const metricRadius = (metrics: NodeMetrics[], key: NodeMetricKey): ((node: GraphNode) => number) => {
+  const values = new Map(metrics.map(m => [m.node.id, m[key]]));
+  const max = metrics.reduce((m, n) => Math.max(m, n[key]), 0);
+  const [min, top] = NODE_RADIUS_RANGE;
+  return node => {
+    const value = values.get(node.id);
+    if (value === undefined) return nodeRadius(node);
+    return max > 0 ? min + (top - min) * Math.sqrt(value / max) : min;
+  };
+};
@@ -0,0 +1,90 @@
+import { computeLayout, GraphData, GraphLayout, layoutInput } from './networkGraph';
+import type { LayoutWorkerMessage, LayoutWorkerRequest } from './layoutWorker';
+
+// Layouts depend only on the graph, so theme switches, highlights and tab changes reuse them
+const CACHE_LIMIT = 12;
+const cache = new Map<string, GraphLayout>();
+
+const remember = (layout: GraphLayout) => {
+  cache.delete(layout.key);
+  cache.set(layout.key, layout);
+  if (cache.size > CACHE_LIMIT) cache.delete(cache.keys().next().value!);
+};
+
+export const cachedLayout = (graph: GraphData): GraphLayout | null => cache.get(graph.key) ?? null;
+
+// Hand-placed nodes for the session, by node id; they outlive re-renders, tab switches and new layouts
+let pins: GraphLayout['positions'] = {};
+
+export const getPins = () => pins;
+
+export const setPins = (next: GraphLayout['positions']) => {
+  pins = next;
+};
+
+let worker: Worker | null = null;
+let nextId = 1;
+// Only the latest request matters; an older one still running is abandoned with its worker
+let pending: { id: number; key: string; promise: Promise<GraphLayout>; reject: (reason: Error) => void } | null = null;
+
+const handlers = new Map<number, (msg: LayoutWorkerMessage) => void>();
+
+const spawn = () => {
+  const w = new Worker(new URL('./layoutWorker.ts', import.meta.url), { type: 'module' });
+  w.onmessage = (e: MessageEvent<LayoutWorkerMessage>) => handlers.get(e.data.id)?.(e.data);
+  w.onerror = (e) => {
+    handlers.forEach(h => h({ id: 0, type: 'error', message: e.message || 'Layout worker failed' }));
+    w.terminate();
+    if (worker === w) worker = null;
+  };
+  return w;
+};
+
+/** Force layout of the graph, from the cache or computed off the main thread around the current pins. */
+export const requestLayout = (graph: GraphData): Promise<GraphLayout> => {
+  const hit = cachedLayout(graph);
+  if (hit) return Promise.resolve(hit);
+  if (pending?.key === graph.key) return pending.promise;
+
+  if (typeof Worker === 'undefined') {
+    const layout = computeLayout(layoutInput(graph, pins));
+    remember(layout);
+    return Promise.resolve(layout);
+  }
+
+  if (pending) {
+    pending.reject(new Error('Layout superseded'));
+    worker?.terminate();
+    worker = null;
+  }
+
+  const id = nextId++;
+  let rejectPromise: (reason: Error) => void = () => {};
+  const promise = new Promise<GraphLayout>((resolve, reject) => {
+    rejectPromise = reject;
+    handlers.set(id, msg => {
+      handlers.delete(id);
+      if (pending?.id === id) pending = null;
+      if (msg.type === 'done') {
+        remember(msg.layout);
+        resolve(msg.layout);
+      } else {
+        reject(new Error(msg.message));
+      }
+    });
+  });
+  pending = {
+    id,
+    key: graph.key,
+    promise,
+    reject: (reason) => {
+      handlers.delete(id);
+      rejectPromise(reason);
+    },
+  };
+
+  worker ??= spawn();
+  const request: LayoutWorkerRequest = { id, input: layoutInput(graph, pins) };
+  worker.postMessage(request);
+  return promise;
+};
@@ -0,0 +1,80 @@
+import { JsonSchema } from '../types';
+
+const TYPES: JsonSchema['type'][] = ['object', 'array', 'string', 'number', 'integer', 'boolean'];
+
+/** Shape check for schemas coming from the editor or an imported agent set; returns the first problem found. */
+export const schemaProblem = (schema: unknown, path: string = 'schema'): string | null => {
+  if (!schema || typeof schema !== 'object' || Array.isArray(schema)) return `${path} must be an object`;
+  const s = schema as Record<string, unknown>;
+  if (!TYPES.includes(s.type as JsonSchema['type'])) return `${path}.type must be one of ${TYPES.join(', ')}`;
+  if (s.enum !== undefined && !(Array.isArray(s.enum) && s.enum.every(v => typeof v === 'string'))) return `${path}.enum must be a list of strings`;
+  if (s.required !== undefined && !(Array.isArray(s.required) && s.required.every(v => typeof v === 'string'))) return `${path}.required must be a list of strings`;
+  if (s.properties !== undefined) {
+    if (!s.properties || typeof s.properties !== 'object') return `${path}.properties must be an object`;
+    for (const [key, child] of Object.entries(s.properties)) {
+      const problem = schemaProblem(child, `${path}.properties.${key}`);
+      if (problem) return problem;
+    }
+  }
+  if (s.items !== undefined) return schemaProblem(s.items, `${path}.items`);
+  if (s.type === 'array' && s.items === undefined) return `${path}.items is required for arrays`;
+  return null;
+};
+
+/** Every mismatch between `value` and `schema`, as `$.path: message` strings. */
+export const validateJson = (value: unknown, schema: JsonSchema, path: string = '$'): string[] => {
+  const errors: string[] = [];
+  switch (schema.type) {
+    case 'object': {
+      if (!value || typeof value !== 'object' || Array.isArray(value)) return [`${path}: expected an object`];
+      const obj = value as Record<string, unknown>;
+      schema.required?.forEach(key => { if (obj[key] === undefined) errors.push(`${path}.${key}: required`); });
+      Object.entries(schema.properties ?? {}).forEach(([key, child]) => {
+        if (obj[key] !== undefined) errors.push(...validateJson(obj[key], child, `${path}.${key}`));
+      });
+      return errors;
+    }
+    case 'array':
+      if (!Array.isArray(value)) return [`${path}: expected an array`];
+      if (schema.items) value.forEach((item, i) => errors.push(...validateJson(item, schema.items!, `${path}[${i}]`)));
+      return errors;
+    case 'string':
+      if (typeof value !== 'string') return [`${path}: expected a string`];
+      if (schema.enum && !schema.enum.includes(value)) return [`${path}: expected one of ${schema.enum.join(', ')}`];
+      return [];
+    case 'integer':
+      return Number.isInteger(value) ? [] : [`${path}: expected an integer`];
+    case 'number':
+      return typeof value === 'number' && isFinite(value) ? [] : [`${path}: expected a number`];
+    case 'boolean':
+      return typeof value === 'boolean' ? [] : [`${path}: expected a boolean`];
+  }
+};
+
+/** Parses model output as JSON, tolerating a Markdown code fence or prose around a single top-level value. */
+export const parseJsonOutput = (text: string): unknown => {
+  const fenced = text.match(/```(?:json)?\s*([\s\S]*?)```/i);
+  const body = (fenced ? fenced[1] : text).trim();
+  try {
+    return JSON.parse(body);
+  } catch {
+    const start = body.search(/[[{]/);
+    const end = Math.max(body.lastIndexOf('}'), body.lastIndexOf(']'));
+    if (start < 0 || end <= start) throw new Error('Output is not JSON');
+    return JSON.parse(body.slice(start, end + 1));
+  }
+};
+
+/** Validated JSON or the list of problems (a parse failure is reported as a single problem). */
+export const checkJsonOutput = (text: string, schema: JsonSchema): { value: unknown; errors: string[] } => {
+  try {
+    const value = parseJsonOutput(text);
+    return { value, errors: validateJson(value, schema) };
+  } catch (e) {
+    return { value: undefined, errors: [e instanceof Error ? e.message : String(e)] };
+  }
+};
+
+/** Reads `path` (property names and array indices) out of a JSON value. */
+export const jsonPath = (value: unknown, path: string[]): unknown =>
+  path.reduce<unknown>((v, key) => v && typeof v === 'object' ? (v as Record<string, unknown>)[key] : undefined, value);
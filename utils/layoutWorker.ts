@@ -0,0 +1,16 @@
+import { computeLayout, GraphLayout, LayoutInput } from './networkGraph';
+
+export type LayoutWorkerRequest = { id: number; input: LayoutInput };
+
+export type LayoutWorkerMessage =
+  | { id: number; type: 'done'; layout: GraphLayout }
+  | { id: number; type: 'error'; message: string };
+
+self.onmessage = (e: MessageEvent<LayoutWorkerRequest>) => {
+  const { id, input } = e.data;
+  try {
+    self.postMessage({ id, type: 'done', layout: computeLayout(input) } satisfies LayoutWorkerMessage);
+  } catch (err) {
+    self.postMessage({ id, type: 'error', message: err instanceof Error ? err.message : String(err) } satisfies LayoutWorkerMessage);
+  }
+};
@@ -0,0 +1,86 @@
+import { MedFlowRow, LicenseInfo } from '../types';
+
+// 衛部 = Ministry of Health and Welfare (2013+), 衛署 = former Department of Health
+const LICENSE_PATTERN = /^(衛部|衛署)醫器(陸輸|輸|製)(壹)?字第(\d{6})號$/;
+
+const AUTHORITIES: Record<string, LicenseInfo['authority']> = { '衛部': 'MOHW', '衛署': 'DOH' };
+const TYPES: Record<string, LicenseInfo['type']> = { '輸': 'import', '陸輸': 'import_china', '製': 'manufacture' };
+
+export const LICENSE_TYPE_LABELS: Record<NonNullable<LicenseInfo['type']>, string> = {
+  import: 'Import (輸)',
+  import_china: 'Import, mainland China (陸輸)',
+  manufacture: 'Domestic manufacture (製)',
+};
+
+/** Parses a TFDA medical device license number such as 衛部醫器輸字第033951號. */
+export const parseLicense = (raw: string): LicenseInfo => {
+  // Full-width digits and stray spaces are common in hand-keyed exports
+  const value = raw.trim().replace(/\s+/g, '').replace(/[０-９]/g, c => String.fromCharCode(c.charCodeAt(0) - 0xFEE0));
+  const m = value.match(LICENSE_PATTERN);
+  if (!m) return { raw, valid: false, authority: null, type: null, classI: false, serial: null, normalized: null };
+  return {
+    raw,
+    valid: true,
+    authority: AUTHORITIES[m[1]],
+    type: TYPES[m[2]],
+    classI: !!m[3],
+    serial: m[4],
+    normalized: value,
+  };
+};
+
+export interface LicenseStats {
+  license: string;
+  info: LicenseInfo;
+  units: number;
+  shipments: number;
+  suppliers: number;
+  customers: number;
+  deviceNames: string[];
+}
+
+export interface LicenseReport {
+  licenses: LicenseStats[];
+  malformed: LicenseStats[];
+  conflicts: LicenseStats[];
+  missing: number;
+}
+
+const normalizeDeviceName = (name: string) => name.trim().replace(/\s+/g, ' ').toLowerCase();
+
+/**
+ * Per-license aggregates. A license maps to one registered device, so several distinct device
+ * names under the same license are reported as conflicts.
+ */
+export const buildLicenseReport = (data: MedFlowRow[]): LicenseReport => {
+  const groups = new Map<string, { rows: number; units: number; suppliers: Set<string>; customers: Set<string>; names: Map<string, string> }>();
+  let missing = 0;
+
+  data.forEach(r => {
+    if (!r.LicenseNo) { missing++; return; }
+    let g = groups.get(r.LicenseNo);
+    if (!g) groups.set(r.LicenseNo, g = { rows: 0, units: 0, suppliers: new Set(), customers: new Set(), names: new Map() });
+    g.rows++;
+    g.units += r.Number;
+    g.suppliers.add(r.SupplierID);
+    g.customers.add(r.CustomerID);
+    if (r.DeviceNAME) g.names.set(normalizeDeviceName(r.DeviceNAME), r.DeviceNAME.trim());
+  });
+
+  const licenses: LicenseStats[] = Array.from(groups.entries()).map(([license, g]) => ({
+    license,
+    info: parseLicense(license),
+    units: g.units,
+    shipments: g.rows,
+    suppliers: g.suppliers.size,
+    customers: g.customers.size,
+    deviceNames: Array.from(g.names.values()),
+  })).sort((a, b) => b.units - a.units);
+
+  return {
+    licenses,
+    malformed: licenses.filter(l => !l.info.valid),
+    conflicts: licenses.filter(l => l.deviceNames.length > 1),
+    missing,
+  };
+};
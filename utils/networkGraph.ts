@@ -0,0 +1,219 @@
+import { forceCenter, forceCollide, forceLink, forceManyBody, forceSimulation, SimulationNodeDatum } from 'd3';
+import { FilterState, MedFlowRow } from '../types';
+import { GraphHighlight } from './traceability';
+import { toISODate } from './dateUtils';
+
+export const LAYOUT_WIDTH = 800;
+export const LAYOUT_HEIGHT = 600;
+
+// 1 supplier, 2 category, 3 customer
+export interface GraphNode {
+  id: string;
+  group: 1 | 2 | 3;
+  val: number;
+}
+
+export interface RankedValue {
+  key: string;
+  units: number;
+}
+
+// One edge per endpoint pair; `value` is the summed units
+export interface GraphLink {
+  source: string;
+  target: string;
+  value: number;
+  shipments: number;
+  devices: RankedValue[];
+  dates: RankedValue[];
+}
+
+export interface GraphData {
+  nodes: GraphNode[];
+  links: GraphLink[];
+  maxLinkValue: number;
+  // Identifies the layout input (node sizes and connected pairs), not the styling
+  key: string;
+}
+
+export interface GraphLayout {
+  key: string;
+  positions: Record<string, [number, number]>;
+  // [x, y, width, height] around every node; large graphs settle well outside the nominal 800x600 box
+  bounds: [number, number, number, number];
+}
+
+// Devices and dates listed in an edge tooltip
+export const EDGE_DETAIL_LIMIT = 3;
+
+interface EdgeAccumulator {
+  source: string;
+  target: string;
+  value: number;
+  shipments: number;
+  devices: Map<string, number>;
+  dates: Map<string, number>;
+}
+
+const topValues = (units: Map<string, number>): RankedValue[] =>
+  Array.from(units.entries())
+    .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+    .slice(0, EDGE_DETAIL_LIMIT)
+    .map(([key, u]) => ({ key, units: u }));
+
+/**
+ * Supplier → category → customer graph of the heaviest `maxNodes` nodes. Node ids: S: supplier, C: category, U: customer.
+ * Rows on the same endpoint pair collapse into one edge; edges below `edgeThreshold` units are dropped.
+ */
+export const buildGraph = (data: MedFlowRow[], maxNodes: number, edgeThreshold: number = 1): GraphData => {
+  const nodesMap = new Map<string, GraphNode>();
+  const edges = new Map<string, EdgeAccumulator>();
+
+  const touch = (id: string, group: GraphNode['group'], units: number) => {
+    let node = nodesMap.get(id);
+    if (!node) nodesMap.set(id, node = { id, group, val: 0 });
+    node.val += units;
+  };
+
+  const connect = (source: string, target: string, r: MedFlowRow, date: string) => {
+    const id = `${source}->${target}`;
+    let edge = edges.get(id);
+    if (!edge) edges.set(id, edge = { source, target, value: 0, shipments: 0, devices: new Map(), dates: new Map() });
+    edge.value += r.Number;
+    edge.shipments++;
+    if (r.DeviceNAME) edge.devices.set(r.DeviceNAME, (edge.devices.get(r.DeviceNAME) ?? 0) + r.Number);
+    if (date) edge.dates.set(date, (edge.dates.get(date) ?? 0) + r.Number);
+  };
+
+  data.forEach(r => {
+    const sup = `S:${r.SupplierID}`;
+    const cat = `C:${r.Category}`;
+    const cust = `U:${r.CustomerID}`;
+    const date = r.parsedDate ? toISODate(r.parsedDate) : r.Deliverdate;
+    touch(sup, 1, r.Number);
+    touch(cat, 2, r.Number);
+    touch(cust, 3, r.Number);
+    connect(sup, cat, r, date);
+    connect(cat, cust, r, date);
+  });
+
+  const nodes = Array.from(nodesMap.values()).sort((a, b) => b.val - a.val).slice(0, maxNodes);
+  const nodeIds = new Set(nodes.map(n => n.id));
+  const links: GraphLink[] = [];
+  edges.forEach(e => {
+    if (e.value < edgeThreshold || !nodeIds.has(e.source) || !nodeIds.has(e.target)) return;
+    links.push({ source: e.source, target: e.target, value: e.value, shipments: e.shipments, devices: topValues(e.devices), dates: topValues(e.dates) });
+  });
+
+  const key = hashString(`${nodes.map(n => `${n.id}=${Math.round(Math.sqrt(Math.max(0, n.val)))}`).join('|')}#${links.map(l => `${l.source}>${l.target}`).join('|')}`);
+  return { nodes, links, maxLinkValue: links.reduce((m, l) => Math.max(m, l.value), 0), key };
+};
+
+const hashString = (s: string) => {
+  let h1 = 0x811c9dc5;
+  let h2 = 0x01000193;
+  for (let i = 0; i < s.length; i++) {
+    const c = s.charCodeAt(i);
+    h1 = Math.imul(h1 ^ c, 0x01000193);
+    h2 = Math.imul(h2 ^ c, 0x5bd1e995);
+  }
+  return `${(h1 >>> 0).toString(16)}${(h2 >>> 0).toString(16)}-${s.length}`;
+};
+
+export interface LayoutInput {
+  key: string;
+  nodes: { id: string; val: number }[];
+  pairs: [string, string][];
+  // Nodes the user placed by hand; the simulation arranges everything else around them
+  pins: GraphLayout['positions'];
+}
+
+// Only what the simulation needs crosses to the worker; tooltip details stay on the main thread
+export const layoutInput = (graph: GraphData, pins: GraphLayout['positions'] = {}): LayoutInput => ({
+  key: graph.key,
+  nodes: graph.nodes.map(n => ({ id: n.id, val: n.val })),
+  pairs: graph.links.map(l => [l.source, l.target]),
+  pins: Object.fromEntries(graph.nodes.filter(n => pins[n.id]).map(n => [n.id, pins[n.id]])),
+});
+
+const BOUNDS_PADDING = 10;
+
+// Smallest and largest node radius in layout units
+export const NODE_RADIUS_RANGE: [number, number] = [3, 20];
+
+const radiusOf = (val: number) => Math.min(NODE_RADIUS_RANGE[1], Math.max(NODE_RADIUS_RANGE[0], Math.sqrt(Math.max(0, val))));
+
+/** Box around every node and its radius, never smaller than the nominal layout area. */
+export const layoutBounds = (nodes: { id: string; val: number }[], positions: GraphLayout['positions']): GraphLayout['bounds'] => {
+  let [minX, minY, maxX, maxY] = [0, 0, LAYOUT_WIDTH, LAYOUT_HEIGHT];
+  nodes.forEach(n => {
+    const [x, y] = positions[n.id];
+    const r = radiusOf(n.val) + BOUNDS_PADDING;
+    minX = Math.min(minX, x - r);
+    minY = Math.min(minY, y - r);
+    maxX = Math.max(maxX, x + r);
+    maxY = Math.max(maxY, y + r);
+  });
+  return [minX, minY, maxX - minX, maxY - minY];
+};
+
+type SimNode = SimulationNodeDatum & { id: string; val: number };
+
+/** Runs the force simulation to rest without rendering; called from the layout worker. */
+export const computeLayout = (input: LayoutInput): GraphLayout => {
+  const nodes: SimNode[] = input.nodes.map(n => {
+    const pin = input.pins[n.id];
+    return pin ? { ...n, x: pin[0], y: pin[1], fx: pin[0], fy: pin[1] } : { ...n };
+  });
+  const links = input.pairs.map(([source, target]) => ({ source, target }));
+
+  const simulation = forceSimulation(nodes)
+    .force('link', forceLink<SimNode, { source: string; target: string }>(links).id(d => d.id).distance(50))
+    .force('charge', forceManyBody().strength(-100))
+    .force('center', forceCenter(LAYOUT_WIDTH / 2, LAYOUT_HEIGHT / 2))
+    .force('collide', forceCollide<SimNode>().radius(d => Math.sqrt(Math.max(0, d.val)) + 5))
+    .stop();
+
+  // Same number of ticks the animated simulation would take to cool down
+  const ticks = Math.ceil(Math.log(simulation.alphaMin()) / Math.log(1 - simulation.alphaDecay()));
+  for (let i = 0; i < ticks; i++) simulation.tick();
+
+  const positions: GraphLayout['positions'] = Object.fromEntries(nodes.map(n => [n.id, [n.x ?? 0, n.y ?? 0]]));
+  return { key: input.key, positions, bounds: layoutBounds(input.nodes, positions) };
+};
+
+export const nodeRadius = (node: GraphNode) => radiusOf(node.val);
+
+const MIN_LINK_WIDTH = 0.5;
+const MAX_LINK_WIDTH = 8;
+
+/** Width on a square-root scale relative to the heaviest edge, so summed units do not swamp the view. */
+export const linkWidth = (link: GraphLink, maxLinkValue: number) =>
+  maxLinkValue > 0 ? MIN_LINK_WIDTH + (MAX_LINK_WIDTH - MIN_LINK_WIDTH) * Math.sqrt(Math.max(0, link.value) / maxLinkValue) : MIN_LINK_WIDTH;
+
+/** The given nodes, their direct neighbours and the edges between them. */
+export const neighbourhood = (graph: GraphData, ids: Set<string>): GraphHighlight => {
+  const nodes = new Set(ids);
+  const links = new Set<string>();
+  graph.links.forEach(l => {
+    if (!ids.has(l.source) && !ids.has(l.target)) return;
+    links.add(`${l.source}->${l.target}`);
+    nodes.add(l.source);
+    nodes.add(l.target);
+  });
+  return { nodes, links };
+};
+
+const NODE_FILTER_FIELDS: Record<GraphNode['group'], 'suppliers' | 'categories' | 'customers'> = {
+  1: 'suppliers',
+  2: 'categories',
+  3: 'customers',
+};
+
+/** Adds the node's supplier, category or customer to the filters, or removes it when already there. */
+export const toggleNodeFilter = (filters: FilterState, node: Pick<GraphNode, 'id' | 'group'>): FilterState => {
+  const field = NODE_FILTER_FIELDS[node.group];
+  const value = node.id.slice(2);
+  const current = filters[field];
+  return { ...filters, [field]: current.includes(value) ? current.filter(v => v !== value) : [...current, value] };
+};
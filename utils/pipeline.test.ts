@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest';
+import { AIResult, Anomaly, AgentSpec, PipelineStep, TemplateContext } from '../types';
+import { DEFAULT_AGENTS } from '../constants';
+import { executePipeline } from './pipeline';
+
+const base: TemplateContext = { data_summary: '', data_sample: '', anomaly_findings: '', filters: '', previous_output: '', agents: {} };
+
+const highAnomaly: Anomaly = { id: 'a1', rule: 'quantity_spike', severity: 'high', title: '', explanation: '', metrics: {}, rows: [] };
+
+const findings = (severity: string) => JSON.stringify({ findings: [{ title: 'Gap', severity, evidence: 'rows' }], risks: [], actions: [] });
+
+const run = async (anomalyAgentSeverity: string) => {
+  const steps: Record<string, PipelineStep> = {};
+  const result = await executePipeline(DEFAULT_AGENTS, base, [highAnomaly], {
+    runAgent: async (agent: AgentSpec): Promise<AIResult> => ({
+      text: agent.id === '02_anomaly_hunter' ? findings(anomalyAgentSeverity) : 'ok',
+      usage: { provider: 'mock', model: 'mock', prompt_tokens: 0, response_tokens: 0, estimated: true, latency_ms: 0, cost: 0 },
+    }),
+    onPrompt: () => {},
+    onStep: (id, step) => { steps[id] = step; },
+    onOutput: () => {},
+  });
+  return { result, steps };
+};
+
+describe('default escalation agent', () => {
+  it('is skipped when the anomaly agent reports low severity, whatever the rule-based findings', async () => {
+    const { result, steps } = await run('low');
+    expect(result.status).toBe('completed');
+    expect(steps['04_escalation'].status).toBe('skipped');
+  });
+
+  it('runs when the anomaly agent reports a high-severity finding', async () => {
+    const { steps } = await run('high');
+    expect(steps['04_escalation'].status).toBe('completed');
+  });
+});
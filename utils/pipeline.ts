@@ -0,0 +1,249 @@
+import {
+  AIResult, AgentSpec, Anomaly, AnomalySeverity, CallUsage, JsonSchema, PipelineIssue, PipelineRun, PipelineStep, StepCondition, StepPolicy,
+  TemplateContext
+} from '../types';
+import { extractVariables, parseAgentRef, renderTemplate, validatePipelineTemplates } from './promptTemplate';
+import { checkJsonOutput, schemaProblem } from './jsonSchema';
+import { fenceUntrusted } from './promptSafety';
+
+export const DEFAULT_STEP_POLICY: StepPolicy = { retries: 1, retry_delay_ms: 1500, on_failure: 'stop' };
+
+// Keeps a wide graph from firing every request at once against the same API quota
+export const MAX_PARALLEL_STEPS = 3;
+
+const SEVERITY_LEVEL: Record<AnomalySeverity, number> = { low: 1, medium: 2, high: 3 };
+
+/**
+ * Upstream agents of every step: explicit `depends_on`, every {{agents.<id>}} reference and the agent an
+ * output condition reads. A step using {{previous_output}} with none of these depends on the agent listed before it.
+ */
+export const resolveDependencies = (agents: AgentSpec[]): Record<string, string[]> => {
+  const ids = new Set(agents.map(a => a.id));
+  const deps: Record<string, string[]> = {};
+  agents.forEach((agent, index) => {
+    const variables = extractVariables(agent.user_prompt_template);
+    const upstream = new Set(agent.depends_on ?? []);
+    variables.forEach(v => { const ref = parseAgentRef(v); if (ref) upstream.add(ref.id); });
+    if (agent.condition?.kind === 'output_matches') upstream.add(agent.condition.agent);
+    upstream.delete(agent.id);
+    if (!upstream.size && variables.includes('previous_output') && index > 0) upstream.add(agents[index - 1].id);
+    deps[agent.id] = Array.from(upstream).filter(id => ids.has(id));
+  });
+  return deps;
+};
+
+/** Template, reference and graph checks; a pipeline with any issue is not started. */
+export const validatePipeline = (agents: AgentSpec[]): PipelineIssue[] => {
+  const issues = validatePipelineTemplates(agents);
+  const ids = new Set<string>();
+  agents.forEach(agent => {
+    const issue = (field: string, message: string) => issues.push({ agentId: agent.id, field, message });
+    if (ids.has(agent.id)) issue('id', 'Duplicate agent id');
+    ids.add(agent.id);
+  });
+  agents.forEach(agent => {
+    const issue = (field: string, message: string) => issues.push({ agentId: agent.id, field, message });
+    agent.depends_on?.forEach(d => { if (!ids.has(d)) issue('depends_on', `Unknown agent "${d}"`); });
+    const schemaIssue = agent.output_schema && schemaProblem(agent.output_schema, 'output_schema');
+    if (schemaIssue) issue('output_schema', schemaIssue);
+    if (agent.condition?.kind === 'output_matches') {
+      if (!ids.has(agent.condition.agent)) issue('condition', `Unknown agent "${agent.condition.agent}"`);
+      try { new RegExp(agent.condition.pattern); } catch { issue('condition', `Invalid pattern /${agent.condition.pattern}/`); }
+    }
+  });
+
+  const deps = resolveDependencies(agents);
+  agents.forEach(agent => {
+    if (!deps[agent.id].length && extractVariables(agent.user_prompt_template).includes('previous_output')) {
+      issues.push({ agentId: agent.id, field: '{{previous_output}}', message: 'No upstream agent to take the output from' });
+    }
+  });
+
+  // Kahn's algorithm: whatever cannot be ordered sits on a cycle
+  const remaining = new Set(agents.map(a => a.id));
+  let removed = true;
+  while (removed) {
+    removed = false;
+    remaining.forEach(id => {
+      if (deps[id].every(d => !remaining.has(d))) { remaining.delete(id); removed = true; }
+    });
+  }
+  remaining.forEach(id => issues.push({ agentId: id, field: 'depends_on', message: 'Part of a dependency cycle' }));
+  return issues;
+};
+
+export const describeCondition = (condition: StepCondition): string =>
+  condition.kind === 'anomaly_severity'
+    ? `Runs only with ${condition.at_least}-severity anomaly findings or worse`
+    : `Runs only if ${condition.agent} output matches /${condition.pattern}/i`;
+
+const conditionMet = (condition: StepCondition, anomalies: Anomaly[], outputs: Record<string, string>): boolean =>
+  condition.kind === 'anomaly_severity'
+    ? anomalies.some(a => SEVERITY_LEVEL[a.severity] >= SEVERITY_LEVEL[condition.at_least])
+    : new RegExp(condition.pattern, 'i').test(outputs[condition.agent] ?? '');
+
+const repairPrompt = (output: string, schema: JsonSchema, errors: string[]) => `Your previous answer did not match the required JSON schema.
+
+Problems:
+${errors.slice(0, 10).map(e => `- ${e}`).join('\n')}
+
+Schema:
+${JSON.stringify(schema)}
+
+Previous answer:
+${fenceUntrusted('previous_answer', output)}
+
+Return only the corrected JSON, with no commentary or code fences.`;
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+export interface PipelineCallbacks {
+  // Reports the text received so far through onText and rejects once `signal` is aborted
+  runAgent: (agent: AgentSpec, prompt: string, onText: (text: string) => void, signal?: AbortSignal) => Promise<AIResult>;
+  onPrompt: (agentId: string, prompt: string) => void;
+  onStep: (agentId: string, step: PipelineStep) => void;
+  onOutput: (agentId: string, output: string) => void;
+}
+
+// Aborting `run` stops the whole pipeline; aborting one of `steps` stops only that agent
+export interface PipelineSignals {
+  run: AbortSignal;
+  steps: Record<string, AbortSignal>;
+}
+
+export const initialSteps = (agents: AgentSpec[]): Record<string, PipelineStep> =>
+  Object.fromEntries(agents.map(a => [a.id, { status: 'pending', attempts: 0 } as PipelineStep]));
+
+/**
+ * Runs the agents as a dependency graph: every step whose upstream has completed starts right away, so
+ * independent branches run in parallel. Failed or skipped steps skip their dependents; a failure under the
+ * 'stop' policy skips everything that has not started yet and fails the run. A stopped agent keeps the partial
+ * text it streamed and is treated like a failure with the 'skip' policy.
+ */
+export const executePipeline = async (
+  agents: AgentSpec[],
+  base: TemplateContext,
+  anomalies: Anomaly[],
+  callbacks: PipelineCallbacks,
+  signals?: PipelineSignals
+): Promise<{ status: PipelineRun['status']; error?: string }> => {
+  const deps = resolveDependencies(agents);
+  const steps = initialSteps(agents);
+  const outputs: Record<string, string> = {};
+  const running = new Map<string, Promise<void>>();
+  let fatal: string | null = null;
+
+  const update = (id: string, patch: Partial<PipelineStep>) => {
+    steps[id] = { ...steps[id], ...patch };
+    callbacks.onStep(id, steps[id]);
+  };
+
+  const addUsage = (id: string, usage: CallUsage) => update(id, { usage: [...steps[id].usage ?? [], usage] });
+
+  const call = async (agent: AgentSpec, prompt: string, onText: (text: string) => void, signal?: AbortSignal) => {
+    let result: AIResult;
+    try {
+      result = await callbacks.runAgent(agent, prompt, onText, signal);
+    } catch (e) {
+      // Failed or stopped calls still used tokens (see generateContent)
+      const usage = (e as { usage?: CallUsage }).usage;
+      if (usage) addUsage(agent.id, usage);
+      throw e;
+    }
+    addUsage(agent.id, result.usage);
+    return result.text;
+  };
+
+  // One repair round-trip with the model's own output and the validation errors; failing again fails the attempt
+  const enforceSchema = async (agent: AgentSpec, output: string, onText: (text: string) => void, signal?: AbortSignal) => {
+    const schema = agent.output_schema!;
+    let checked = checkJsonOutput(output, schema);
+    if (checked.errors.length) {
+      const repaired = await call(agent, repairPrompt(output, schema, checked.errors), onText, signal);
+      checked = checkJsonOutput(repaired, schema);
+      if (!checked.errors.length) update(agent.id, { repaired: true });
+    }
+    if (checked.errors.length) throw new Error(`Output does not match the schema: ${checked.errors.slice(0, 3).join('; ')}`);
+    return JSON.stringify(checked.value, null, 2);
+  };
+
+  const runStep = async (agent: AgentSpec) => {
+    const policy = { ...DEFAULT_STEP_POLICY, ...agent.policy };
+    const prompt = renderTemplate(agent.user_prompt_template, {
+      ...base,
+      agents: { ...outputs },
+      previous_output: deps[agent.id].map(id => outputs[id]).join('\n\n'),
+    });
+    callbacks.onPrompt(agent.id, prompt);
+    const signal = signals?.steps[agent.id];
+    const startedAt = Date.now();
+    for (let attempt = 1; ; attempt++) {
+      update(agent.id, { status: 'running', attempts: attempt, startedAt });
+      if (attempt > 1) callbacks.onOutput(agent.id, '');
+      try {
+        const onText = (text: string) => callbacks.onOutput(agent.id, text);
+        let res = await call(agent, prompt, onText, signal);
+        if (agent.output_schema) res = await enforceSchema(agent, res, onText, signal);
+        outputs[agent.id] = res;
+        callbacks.onOutput(agent.id, res);
+        update(agent.id, { status: 'completed', finishedAt: Date.now(), error: undefined });
+        return;
+      } catch (e) {
+        if (signal?.aborted) {
+          update(agent.id, { status: 'cancelled', finishedAt: Date.now(), error: 'Stopped by user' });
+          return;
+        }
+        const error = e instanceof Error ? e.message : String(e);
+        if (attempt > policy.retries) {
+          update(agent.id, { status: 'failed', finishedAt: Date.now(), error });
+          if (policy.on_failure === 'stop' && !fatal) fatal = `${agent.name}: ${error}`;
+          return;
+        }
+        update(agent.id, { error });
+        await sleep(policy.retry_delay_ms * attempt);
+        if (signal?.aborted) {
+          update(agent.id, { status: 'cancelled', finishedAt: Date.now(), error: 'Stopped by user' });
+          return;
+        }
+      }
+    }
+  };
+
+  for (;;) {
+    let progressed = true;
+    while (progressed) {
+      progressed = false;
+      for (const agent of agents) {
+        if (steps[agent.id].status !== 'pending') continue;
+        const skip = (reason: string) => { update(agent.id, { status: 'skipped', reason }); progressed = true; };
+        if (signals?.run.aborted) { skip('Run stopped by user'); continue; }
+        if (fatal) { skip('Run stopped after a failed step'); continue; }
+        const blocked = deps[agent.id].find(id => ['failed', 'skipped', 'cancelled'].includes(steps[id].status));
+        if (blocked) { skip(`Upstream ${blocked} did not complete`); continue; }
+        if (deps[agent.id].some(id => steps[id].status !== 'completed')) continue;
+        if (agent.condition && !conditionMet(agent.condition, anomalies, outputs)) { skip(`Condition not met: ${describeCondition(agent.condition)}`); continue; }
+        if (running.size >= MAX_PARALLEL_STEPS) continue;
+        running.set(agent.id, runStep(agent).finally(() => running.delete(agent.id)));
+        progressed = true;
+      }
+    }
+    if (!running.size) break;
+    await Promise.race(running.values());
+  }
+
+  if (signals?.run.aborted) return { status: 'cancelled', error: 'Stopped by user' };
+  return fatal ? { status: 'failed', error: fatal } : { status: 'completed' };
+};
+
+/** One agent's prompt rendered against the current data, with labelled stand-ins for upstream outputs. */
+export const previewPrompt = (agents: AgentSpec[], agentId: string, base: TemplateContext): string => {
+  const agent = agents.find(a => a.id === agentId);
+  if (!agent) return '';
+  const deps = resolveDependencies(agents);
+  const standIn = (id: string) => `[output of ${agents.find(a => a.id === id)?.name ?? id}]`;
+  return renderTemplate(agent.user_prompt_template, {
+    ...base,
+    agents: Object.fromEntries(agents.map(a => [a.id, standIn(a.id)])),
+    previous_output: deps[agentId].map(standIn).join('\n\n'),
+  });
+};
@@ -0,0 +1,8 @@
+import { describe, expect, it } from 'vitest';
+import { runPromptSafetyChecks } from './promptSafetyFixtures';
+
+describe('adversarial CSV fixtures', () => {
+  it.each(runPromptSafetyChecks().map(r => [r.name, r] as const))('%s', (_, result) => {
+    expect(result.problems).toEqual([]);
+  });
+});
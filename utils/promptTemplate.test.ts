@@ -0,0 +1,25 @@
+import { describe, expect, it } from 'vitest';
+import { AgentSpec, FilterState } from '../types';
+import { buildTemplateContext, renderTemplate, validatePipelineTemplates } from './promptTemplate';
+
+const NO_FILTERS: FilterState = {
+  date_min: null, date_max: null, suppliers: [], customers: [], categories: [], licenses: [], top_n: 10, edge_threshold: 1, max_nodes: 100,
+};
+
+const agent = (user_prompt_template: string): AgentSpec => ({
+  id: 'probe', name: 'Probe', goal: '', model: '', system_prompt: '', user_prompt_template, temperature: 0, max_tokens: 100,
+});
+
+describe('inherited object keys as placeholders', () => {
+  const template = '{{constructor}} {{toString}} {{__proto__}} {{hasOwnProperty}}';
+
+  it('are reported as unknown variables', () => {
+    expect(validatePipelineTemplates([agent(template)]).map(i => i.field))
+      .toEqual(['{{constructor}}', '{{toString}}', '{{__proto__}}', '{{hasOwnProperty}}']);
+  });
+
+  it('are left in place when rendering', () => {
+    const context = buildTemplateContext([], NO_FILTERS, 10, []);
+    expect(renderTemplate(template, context)).toBe(template);
+  });
+});
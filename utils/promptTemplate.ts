@@ -0,0 +1,118 @@
+import { AgentSpec, Anomaly, FilterState, JsonSchema, MedFlowRow, TemplateContext, PipelineIssue } from '../types';
+import { rowsToCSV } from './dataFormats';
+import { summarizeData } from './csvParser';
+import { summarizeAnomalies } from './anomalyDetection';
+import { jsonPath, parseJsonOutput } from './jsonSchema';
+import { escapeUntrusted, fenceUntrusted, sanitizeJson, sanitizeRows } from './promptSafety';
+
+export const TEMPLATE_VARIABLES: Record<Exclude<keyof TemplateContext, 'agents'>, string> = {
+  data_summary: 'JSON summary of the filtered data (totals, date range, top lists)',
+  data_sample: 'CSV sample of the filtered rows; size set in Agent Studio',
+  anomaly_findings: 'JSON of the rule-based anomaly findings',
+  filters: 'Active global filters',
+  previous_output: 'Outputs of the upstream agents (the agent listed before, if none are declared)',
+};
+
+export const DEFAULT_SAMPLE_SIZE = 20;
+export const MAX_SAMPLE_SIZE = 200;
+
+const PLACEHOLDER = /\{\{\s*([\w.-]+)\s*\}\}/g;
+const AGENT_PREFIX = 'agents.';
+
+/** Splits `agents.<id>` or `agents.<id>.<field>…` (fields only for agents with an output schema); null for other variables. */
+export const parseAgentRef = (variable: string): { id: string; path: string[] } | null => {
+  if (!variable.startsWith(AGENT_PREFIX)) return null;
+  const [id, ...path] = variable.slice(AGENT_PREFIX.length).split('.');
+  return { id, path };
+};
+
+const schemaAt = (schema: JsonSchema | undefined, path: string[]): JsonSchema | undefined =>
+  path.reduce<JsonSchema | undefined>(
+    (s, key) => s?.type === 'array' && /^\d+$/.test(key) ? s.items : s?.properties?.[key],
+    schema
+  );
+
+/** Distinct placeholder names in a template, in order of first appearance. */
+export const extractVariables = (template: string): string[] =>
+  Array.from(new Set(Array.from(template.matchAll(PLACEHOLDER), m => m[1])));
+
+/** Checks every placeholder against the known variables and agent ids; ordering is checked with the dependency graph. */
+export const validatePipelineTemplates = (agents: AgentSpec[]): PipelineIssue[] => {
+  const issues: PipelineIssue[] = [];
+  const byId = new Map(agents.map(a => [a.id, a]));
+  agents.forEach(agent => {
+    extractVariables(agent.user_prompt_template).forEach(variable => {
+      const issue = (message: string) => issues.push({ agentId: agent.id, field: `{{${variable}}}`, message });
+      const ref = parseAgentRef(variable);
+      if (ref) {
+        const target = byId.get(ref.id);
+        if (!target) issue(`Unknown agent "${ref.id}"`);
+        else if (ref.id === agent.id) issue('An agent cannot reference its own output');
+        else if (ref.path.length && !target.output_schema) issue(`Field references need an output schema on "${ref.id}"`);
+        else if (ref.path.length && !schemaAt(target.output_schema, ref.path)) issue(`"${ref.path.join('.')}" is not in the output schema of "${ref.id}"`);
+      } else if (!Object.hasOwn(TEMPLATE_VARIABLES, variable)) {
+        issue(`Unknown variable "${variable}"`);
+      }
+    });
+  });
+  return issues;
+};
+
+// A field of a structured output; falls back to the whole output when it is not JSON (e.g. preview stand-ins)
+const agentField = (output: string, path: string[]): string => {
+  try {
+    const value = jsonPath(parseJsonOutput(output), path);
+    if (value === undefined) return '';
+    return typeof value === 'string' ? value : JSON.stringify(value, null, 2);
+  } catch {
+    return output;
+  }
+};
+
+/**
+ * Substitutes every occurrence of every placeholder; unknown ones are left as-is so validation can report them.
+ * Every value is data or model output, so each one is fenced as untrusted.
+ */
+export const renderTemplate = (template: string, context: TemplateContext): string =>
+  template.replace(PLACEHOLDER, (match, variable: string) => {
+    const ref = parseAgentRef(variable);
+    if (ref) {
+      const output = context.agents[ref.id];
+      if (output === undefined) return match;
+      return fenceUntrusted(variable, ref.path.length ? agentField(output, ref.path) : output);
+    }
+    return Object.hasOwn(TEMPLATE_VARIABLES, variable) ? fenceUntrusted(variable, context[variable as keyof typeof TEMPLATE_VARIABLES]) : match;
+  });
+
+/** Evenly spaced rows across the filtered data, so the sample is not just the first delivery day. */
+export const buildDataSample = (data: MedFlowRow[], size: number): string => {
+  const n = Math.max(0, Math.min(size, data.length));
+  if (!n) return '';
+  const step = data.length / n;
+  return rowsToCSV(sanitizeRows(Array.from({ length: n }, (_, i) => data[Math.floor(i * step)])));
+};
+
+export const describeFilters = (filters: FilterState): string => {
+  const parts: string[] = [];
+  if (filters.date_min || filters.date_max) parts.push(`Dates: ${filters.date_min ?? 'start'} to ${filters.date_max ?? 'end'}`);
+  if (filters.suppliers.length) parts.push(`Suppliers: ${filters.suppliers.join(', ')}`);
+  if (filters.customers.length) parts.push(`Customers: ${filters.customers.join(', ')}`);
+  if (filters.categories.length) parts.push(`Categories: ${filters.categories.join(', ')}`);
+  if (filters.licenses.length) parts.push(`Licenses: ${filters.licenses.join(', ')}`);
+  return parts.length ? parts.join('\n') : 'None (all loaded data)';
+};
+
+/** Pipeline inputs for one set of filtered rows; agent outputs are filled in as the run progresses. */
+export const buildTemplateContext = (
+  data: MedFlowRow[],
+  filters: FilterState,
+  sampleSize: number,
+  anomalies: Anomaly[]
+): TemplateContext => ({
+  data_summary: JSON.stringify(sanitizeJson(summarizeData(data))),
+  data_sample: buildDataSample(data, sampleSize),
+  anomaly_findings: JSON.stringify(sanitizeJson(summarizeAnomalies(anomalies))),
+  filters: escapeUntrusted(describeFilters(filters)),
+  previous_output: '',
+  agents: {},
+});
@@ -0,0 +1,30 @@
+import { describe, expect, it } from 'vitest';
+import { MedFlowRow } from '../types';
+import { redactRows, redactText, registerIdentifiers, restoreText } from './redaction';
+
+const row = (CustomerID: string, SupplierID: string, SerNo = '') => ({ CustomerID, SupplierID, SerNo } as MedFlowRow);
+
+describe('identifier aliases', () => {
+  it('start over for each dataset, so the same data always gets the same aliases', () => {
+    const first = [row('HOSP-A', 'SUP-1'), row('HOSP-B', 'SUP-1')];
+    const second = [row('HOSP-C', 'SUP-2')];
+    registerIdentifiers(first);
+    expect(redactRows(first).map(r => r.CustomerID)).toEqual(['CUST-0001', 'CUST-0002']);
+
+    registerIdentifiers(second);
+    expect(redactRows(second)[0].CustomerID).toBe('CUST-0001');
+    expect(restoreText('CUST-0001 and CUST-0002')).toBe('HOSP-C and CUST-0002');
+
+    registerIdentifiers([...first]);
+    expect(restoreText('CUST-0002')).toBe('HOSP-B');
+  });
+});
+
+describe('redactText', () => {
+  it('replaces customer and supplier IDs but leaves numbers that equal a serial alone', () => {
+    const rows = [row('HOSP-A', 'SUP-1000', '1000')];
+    registerIdentifiers(rows);
+    expect(redactRows(rows)[0].SerNo).toBe('SN-0001');
+    expect(redactText('qty 1000, lot 1000 for HOSP-A from SUP-1000')).toBe('qty 1000, lot 1000 for CUST-0001 from SUPP-0001');
+  });
+});
@@ -0,0 +1,118 @@
+import { FilterState, GenerateRequest, MedFlowRow } from '../types';
+
+export type RedactedField = 'CustomerID' | 'SupplierID' | 'SerNo';
+
+export const REDACTED_FIELD_PREFIX: Record<RedactedField, string> = {
+  CustomerID: 'CUST',
+  SupplierID: 'SUPP',
+  SerNo: 'SN',
+};
+
+const REDACTED_FIELDS = Object.keys(REDACTED_FIELD_PREFIX) as RedactedField[];
+
+const SETTINGS_KEY = 'medflow.privacy';
+
+// Serials look like quantities, lots and dates ("1000"), so free text only has customer and supplier IDs replaced;
+// serials reach the model through redacted rows
+const TEXT_FIELDS: RedactedField[] = ['CustomerID', 'SupplierID'];
+
+// Short IDs would hit ordinary words and numbers in free text, so they are only replaced field by field
+const MIN_TEXT_LENGTH = 4;
+
+const ALIAS_PATTERN = /\b(?:CUST|SUPP|SN)-\d{4,}\b/g;
+
+// Candidate identifiers in free text; IDs are matched as whole ASCII tokens
+const TOKEN_PATTERN = /[\w-]+/g;
+
+const loadEnabled = () => {
+  try {
+    return JSON.parse(localStorage.getItem(SETTINGS_KEY) || '{}').pseudonymize !== false;
+  } catch {
+    return true;
+  }
+};
+
+let enabled = loadEnabled();
+
+export const isRedactionEnabled = () => enabled;
+
+export const setRedactionEnabled = (next: boolean) => {
+  enabled = next;
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify({ pseudonymize: next }));
+};
+
+// Held in memory only: aliases are stable for the loaded dataset and the mapping never reaches storage or the network
+const aliases: Record<RedactedField, Map<string, string>> = { CustomerID: new Map(), SupplierID: new Map(), SerNo: new Map() };
+const originals = new Map<string, string>();
+const textAliases = new Map<string, string>();
+let registered: MedFlowRow[] | null = null;
+
+const aliasFor = (field: RedactedField, value: string) => {
+  if (!value) return value;
+  let alias = aliases[field].get(value);
+  if (!alias) {
+    alias = `${REDACTED_FIELD_PREFIX[field]}-${String(aliases[field].size + 1).padStart(4, '0')}`;
+    aliases[field].set(value, alias);
+    originals.set(alias, value);
+    if (TEXT_FIELDS.includes(field) && value.length >= MIN_TEXT_LENGTH && !textAliases.has(value)) textAliases.set(value, alias);
+  }
+  return alias;
+};
+
+/**
+ * Assigns aliases in import order, so an identifier keeps its alias whatever the filters. Numbering starts over
+ * for every new dataset, so the same data always gets the same aliases, in this session or a later one.
+ */
+export const registerIdentifiers = (rows: MedFlowRow[]) => {
+  if (rows === registered) return;
+  registered = rows;
+  REDACTED_FIELDS.forEach(f => aliases[f].clear());
+  originals.clear();
+  textAliases.clear();
+  rows.forEach(r => REDACTED_FIELDS.forEach(f => aliasFor(f, r[f])));
+};
+
+export const redactRows = (rows: MedFlowRow[]): MedFlowRow[] =>
+  enabled ? rows.map(r => ({ ...r, CustomerID: aliasFor('CustomerID', r.CustomerID), SupplierID: aliasFor('SupplierID', r.SupplierID), SerNo: aliasFor('SerNo', r.SerNo) })) : rows;
+
+export const redactFilters = (filters: FilterState): FilterState =>
+  enabled
+    ? { ...filters, suppliers: filters.suppliers.map(v => aliasFor('SupplierID', v)), customers: filters.customers.map(v => aliasFor('CustomerID', v)) }
+    : filters;
+
+/** Safety net for text that was not built from redacted rows: templates, search queries, filter lists. */
+export const redactText = (text: string) =>
+  enabled ? text.replace(TOKEN_PATTERN, token => textAliases.get(token) ?? token) : text;
+
+/** Exactly what leaves the browser for a request; used both for the call and for the audit preview. */
+export const redactRequest = (request: GenerateRequest): GenerateRequest => enabled ? {
+  ...request,
+  prompt: redactText(request.prompt),
+  ...(request.systemInstruction ? { systemInstruction: redactText(request.systemInstruction) } : {}),
+} : request;
+
+/** Real identifiers that would go out in clear, e.g. while redaction is off. */
+export const identifiersInText = (text: string): string[] =>
+  Array.from(new Set((text.match(TOKEN_PATTERN) ?? []).filter(token => textAliases.has(token))));
+
+/**
+ * Puts the real identifiers back into model output, using the aliases of the loaded dataset. Text produced on other
+ * data must not go through here: its aliases point at different identifiers now (see datasetFingerprint).
+ */
+export const restoreText = (text: string) => text.replace(ALIAS_PATTERN, alias => originals.get(alias) ?? alias);
+
+export const restoreValue = (value: unknown): unknown => {
+  if (typeof value === 'string') return restoreText(value);
+  if (Array.isArray(value)) return value.map(restoreValue);
+  if (value && typeof value === 'object') return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, restoreValue(v)]));
+  return value;
+};
+
+export interface IdentifierAlias {
+  field: RedactedField;
+  value: string;
+  alias: string;
+}
+
+export const identifierAliases = (): IdentifierAlias[] =>
+  REDACTED_FIELDS.flatMap(field => Array.from(aliases[field].entries()).map(([value, alias]) => ({ field, value, alias })));
@@ -0,0 +1,68 @@
+import { MedFlowRow, PipelineRun, UsageRecord } from '../types';
+import { MEDFLOW_FIELDS } from './csvParser';
+
+const DB_NAME = 'medflow';
+const DB_VERSION = 2;
+const RUN_STORE = 'pipelineRuns';
+const USAGE_STORE = 'usageLog';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        [RUN_STORE, USAGE_STORE].forEach(name => {
+          if (!db.objectStoreNames.contains(name)) db.createObjectStore(name, { keyPath: 'id' }).createIndex('timestamp', 'timestamp');
+        });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => { dbPromise = null; reject(request.error); };
+    });
+  }
+  return dbPromise;
+};
+
+const withStore = async <T>(name: string, mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const request = action(db.transaction(name, mode).objectStore(name));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+export const saveRun = (run: PipelineRun) => withStore(RUN_STORE, 'readwrite', store => store.put(run));
+
+export const deleteRun = (id: string) => withStore(RUN_STORE, 'readwrite', store => store.delete(id));
+
+/** Newest first. A run still marked running was cut off by a reload and is reported as failed. */
+export const loadRuns = async (): Promise<PipelineRun[]> => {
+  const runs = await withStore<PipelineRun[]>(RUN_STORE, 'readonly', store => store.getAll());
+  return runs
+    .map(r => r.status === 'running' ? { ...r, status: 'failed' as const, error: 'Interrupted by a page reload' } : r)
+    .sort((a, b) => b.timestamp - a.timestamp);
+};
+
+export const saveUsageRecord = (record: UsageRecord) => withStore(USAGE_STORE, 'readwrite', store => store.put(record));
+
+export const clearUsageRecords = () => withStore(USAGE_STORE, 'readwrite', store => store.clear());
+
+/** Oldest first, in call order. */
+export const loadUsageRecords = async (): Promise<UsageRecord[]> =>
+  (await withStore<UsageRecord[]>(USAGE_STORE, 'readonly', store => store.getAll())).sort((a, b) => a.timestamp - b.timestamp);
+
+/** FNV-1a over every mapped field, so two runs can tell whether they saw the same import. */
+export const datasetFingerprint = (rows: MedFlowRow[]): string => {
+  let hash = 0x811c9dc5;
+  const feed = (s: string) => {
+    for (let i = 0; i < s.length; i++) {
+      hash ^= s.charCodeAt(i);
+      hash = Math.imul(hash, 0x01000193);
+    }
+  };
+  rows.forEach(r => MEDFLOW_FIELDS.forEach(f => feed(`${r[f]}\u001f`)));
+  return `${rows.length}:${(hash >>> 0).toString(16).padStart(8, '0')}`;
+};
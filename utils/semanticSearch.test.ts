@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest';
+import { MedFlowRow } from '../types';
+import { buildSearchVocabulary, parseQueryLocally, sanitizeIntent } from './semanticSearch';
+
+const row = (SupplierID: string, CustomerID: string, Category: string) =>
+  ({ SupplierID, CustomerID, Category, LicenseNo: 'L-1', DeviceNAME: 'Stent', Model: 'X1', Number: 1 } as MedFlowRow);
+
+const vocab = buildSearchVocabulary([row('SUP-1', 'HOSP-A', 'Cardiology'), row('SUP-2', 'HOSP-B', 'Orthopedics')]);
+
+describe('sanitizeIntent', () => {
+  it('drops empty and whitespace-only values instead of selecting the first name', () => {
+    const intent = sanitizeIntent('{"suppliers": ["", "  "], "customers": [null], "categories": [""], "licenses": [" "]}', vocab);
+    expect(intent.filters.suppliers).toEqual([]);
+    expect(intent.filters.customers).toEqual([]);
+    expect(intent.filters.categories).toEqual([]);
+    expect(intent.filters.licenses).toEqual([]);
+  });
+
+  it('snaps partial category names to the loaded ones', () => {
+    const intent = sanitizeIntent('{"suppliers": ["sup-2"], "categories": ["cardio"]}', vocab);
+    expect(intent.filters.suppliers).toEqual(['SUP-2']);
+    expect(intent.filters.categories).toEqual(['Cardiology']);
+  });
+
+  it('drops IDs and licenses that do not match exactly instead of picking a similar one', () => {
+    const intent = sanitizeIntent('{"suppliers": ["SUP", "SUP-3"], "customers": ["HOSP-C", "HOSP"], "licenses": ["L-2"]}', vocab);
+    expect(intent.filters.suppliers).toEqual([]);
+    expect(intent.filters.customers).toEqual([]);
+    expect(intent.filters.licenses).toEqual([]);
+  });
+});
+
+describe('parseQueryLocally', () => {
+  it('does not read inherited object keys as month names', () => {
+    const intent = parseQueryLocally('constructor valueOf stents', vocab);
+    expect(intent.filters.date_min).toBeNull();
+    expect(intent.filters.date_max).toBeNull();
+  });
+});
@@ -0,0 +1,206 @@
+import { MedFlowRow, SearchIntent } from '../types';
+import { addDays, toISODate } from './dateUtils';
+import { sanitizeJson } from './promptSafety';
+
+export interface SearchVocabulary {
+  suppliers: string[];
+  customers: string[];
+  categories: string[];
+  licenses: string[];
+  deviceWords: string[];
+  anchor: Date;
+}
+
+const MONTHS: Record<string, number> = {
+  jan: 0, january: 0, feb: 1, february: 1, mar: 2, march: 2, apr: 3, april: 3, may: 4, jun: 5, june: 5,
+  jul: 6, july: 6, aug: 7, august: 7, sep: 8, sept: 8, september: 8, oct: 9, october: 9, nov: 10, november: 10,
+  dec: 11, december: 11,
+};
+
+const ZH_MONTH_DIGITS: Record<string, number> = {
+  '一': 1, '二': 2, '三': 3, '四': 4, '五': 5, '六': 6, '七': 7, '八': 8, '九': 9, '十': 10, '十一': 11, '十二': 12,
+};
+
+const STOPWORDS = new Set([
+  'a', 'an', 'the', 'to', 'in', 'on', 'of', 'for', 'from', 'by', 'with', 'and', 'or', 'at', 'during', 'between',
+  'show', 'me', 'find', 'list', 'all', 'any', 'what', 'which', 'were', 'was', 'is', 'are', 'that', 'this',
+  'delivered', 'delivery', 'deliveries', 'shipped', 'shipment', 'shipments', 'sent', 'received', 'units', 'items',
+  'customer', 'customers', 'supplier', 'suppliers', 'category', 'categories', 'device', 'devices', 'last', 'past',
+  'days', 'day', 'weeks', 'week', 'months', 'month', 'year',
+]);
+
+const FUZZY_MIN_SIMILARITY = 0.75;
+
+const levenshtein = (a: string, b: string): number => {
+  const prev = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    let diag = prev[0];
+    prev[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const tmp = prev[j];
+      prev[j] = Math.min(prev[j] + 1, prev[j - 1] + 1, diag + (a[i - 1] === b[j - 1] ? 0 : 1));
+      diag = tmp;
+    }
+  }
+  return prev[b.length];
+};
+
+const singular = (w: string) => w.length > 4 && w.endsWith('s') && !w.endsWith('ss') ? w.slice(0, -1) : w;
+
+/** Typo-tolerant word match: plural-insensitive, prefix, or edit-distance similarity. */
+export const fuzzyWordMatch = (token: string, word: string): boolean => {
+  const a = singular(token.toLowerCase());
+  const b = singular(word.toLowerCase());
+  if (a === b) return true;
+  if (a.length < 4 || b.length < 4) return false;
+  if (b.startsWith(a) || a.startsWith(b)) return true;
+  return 1 - levenshtein(a, b) / Math.max(a.length, b.length) >= FUZZY_MIN_SIMILARITY;
+};
+
+const words = (s: string) => s.toLowerCase().split(/[^\p{L}\p{N}]+/u).filter(Boolean);
+
+export const buildSearchVocabulary = (data: MedFlowRow[]): SearchVocabulary => {
+  const deviceWords = new Set<string>();
+  let anchor = -Infinity;
+  data.forEach(r => {
+    words(`${r.DeviceNAME} ${r.Model}`).forEach(w => deviceWords.add(w));
+    if (r.parsedDate && r.parsedDate.getTime() > anchor) anchor = r.parsedDate.getTime();
+  });
+  const distinct = (key: keyof MedFlowRow) => Array.from(new Set(data.map(r => String(r[key])).filter(Boolean)));
+  return {
+    suppliers: distinct('SupplierID'),
+    customers: distinct('CustomerID'),
+    categories: distinct('Category'),
+    licenses: distinct('LicenseNo'),
+    deviceWords: Array.from(deviceWords),
+    anchor: anchor === -Infinity ? new Date() : new Date(anchor),
+  };
+};
+
+// Most recent occurrence of the month that is not after the anchor
+const monthRange = (month: number, year: number | null, anchor: Date) => {
+  let y = year ?? anchor.getFullYear();
+  if (year === null && month > anchor.getMonth()) y--;
+  return {
+    date_min: toISODate(new Date(y, month, 1)),
+    date_max: toISODate(new Date(y, month + 1, 0)),
+  };
+};
+
+const emptyIntent = (source: SearchIntent['source']): SearchIntent => ({
+  filters: { suppliers: [], customers: [], categories: [], licenses: [], date_min: null, date_max: null },
+  text: [],
+  source,
+});
+
+/** Keyword/fuzzy translation used when no API key is configured or the model call fails. */
+export const parseQueryLocally = (query: string, vocab: SearchVocabulary): SearchIntent => {
+  const intent = emptyIntent('local');
+  let rest = query;
+  const lower = (v: string) => v.toLowerCase();
+
+  // Dates: "last 30 days", "November 2025", "11月"
+  const lastN = rest.match(/\b(?:last|past)\s+(\d+)\s+(day|week|month)s?\b/i);
+  if (lastN) {
+    const n = parseInt(lastN[1]);
+    const unit = lastN[2].toLowerCase();
+    const days = unit === 'day' ? n : unit === 'week' ? n * 7 : n * 30;
+    intent.filters.date_min = toISODate(addDays(vocab.anchor, -(days - 1)));
+    intent.filters.date_max = toISODate(vocab.anchor);
+    rest = rest.replace(lastN[0], ' ');
+  }
+  const yearMatch = rest.match(/\b(20\d{2})\b/);
+  const year = yearMatch ? parseInt(yearMatch[1]) : null;
+  const monthToken = words(rest).find(w => Object.hasOwn(MONTHS, w));
+  const zhMonth = rest.match(/(\d{1,2}|十[一二]?|[一二三四五六七八九])月/);
+  if (monthToken || zhMonth) {
+    const month = monthToken
+      ? MONTHS[monthToken]
+      : (/^\d+$/.test(zhMonth![1]) ? parseInt(zhMonth![1]) : ZH_MONTH_DIGITS[zhMonth![1]]) - 1;
+    Object.assign(intent.filters, monthRange(month, year, vocab.anchor));
+    rest = monthToken ? rest.replace(new RegExp(`\\b${monthToken}\\b`, 'i'), ' ') : rest.replace(zhMonth![0], ' ');
+  } else if (year !== null) {
+    intent.filters.date_min = `${year}-01-01`;
+    intent.filters.date_max = `${year}-12-31`;
+  }
+  if (yearMatch) rest = rest.replace(yearMatch[0], ' ');
+
+  // Exact IDs and licenses
+  const suppliers = new Map(vocab.suppliers.map(s => [lower(s), s]));
+  const customers = new Map(vocab.customers.map(c => [lower(c), c]));
+  const remaining: string[] = [];
+  rest.split(/\s+/).filter(Boolean).forEach(raw => {
+    const token = raw.replace(/[^\p{L}\p{N}-]/gu, '');
+    const t = lower(token);
+    if (!t) return;
+    if (suppliers.has(t)) intent.filters.suppliers.push(suppliers.get(t)!);
+    else if (customers.has(t)) intent.filters.customers.push(customers.get(t)!);
+    else {
+      const license = vocab.licenses.find(l => t.length >= 6 && lower(l).includes(t));
+      if (license) intent.filters.licenses.push(license);
+      else remaining.push(t);
+    }
+  });
+
+  // Categories by fuzzy word match; the rest become device/model terms if they occur in the data
+  remaining.forEach(t => {
+    if (STOPWORDS.has(t)) return;
+    const cats = vocab.categories.filter(c => words(c).some(w => w.length >= 4 && fuzzyWordMatch(t, w)));
+    if (cats.length) {
+      cats.forEach(c => { if (!intent.filters.categories.includes(c)) intent.filters.categories.push(c); });
+    } else if (vocab.deviceWords.some(w => fuzzyWordMatch(t, w))) {
+      intent.text.push(t);
+    }
+  });
+
+  return intent;
+};
+
+// IDs and licenses must match exactly (ignoring case): a made-up or truncated ID would otherwise snap to a different
+// real supplier or customer. Only category names are matched loosely.
+const snapToVocabulary = (values: unknown, vocabulary: string[], fuzzy: boolean = false): string[] => {
+  if (!Array.isArray(values)) return [];
+  const out: string[] = [];
+  values.forEach(v => {
+    const s = String(v ?? '').trim().toLowerCase();
+    // An empty value is contained in every name and would select the first one
+    if (!s) return;
+    const exact = vocabulary.find(x => x.toLowerCase() === s);
+    const match = exact ?? (fuzzy ? vocabulary.find(x => x.toLowerCase().includes(s) || words(x).some(w => fuzzyWordMatch(s, w))) : undefined);
+    if (match && !out.includes(match)) out.push(match);
+  });
+  return out;
+};
+
+const isoOrNull = (v: unknown) => typeof v === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(v) ? v : null;
+
+/** Validates model JSON against the loaded data: unknown IDs are dropped, loose category names snapped to real ones. */
+export const sanitizeIntent = (raw: string, vocab: SearchVocabulary): SearchIntent => {
+  const json = raw.trim().replace(/^```(?:json)?\s*/i, '').replace(/```$/, '');
+  const parsed = JSON.parse(json) as Record<string, unknown>;
+  const intent = emptyIntent('ai');
+  intent.filters.suppliers = snapToVocabulary(parsed.suppliers, vocab.suppliers);
+  intent.filters.customers = snapToVocabulary(parsed.customers, vocab.customers);
+  intent.filters.categories = snapToVocabulary(parsed.categories, vocab.categories, true);
+  intent.filters.licenses = snapToVocabulary(parsed.licenses, vocab.licenses);
+  intent.filters.date_min = isoOrNull(parsed.date_min);
+  intent.filters.date_max = isoOrNull(parsed.date_max);
+  intent.text = Array.isArray(parsed.text) ? parsed.text.map(t => String(t).toLowerCase()).filter(Boolean) : [];
+  return intent;
+};
+
+/** Every term must match a word of DeviceNAME or Model (typo-tolerant). */
+export const matchesSearchText = (row: MedFlowRow, terms: string[]): boolean => {
+  if (!terms.length) return true;
+  const rowWords = words(`${row.DeviceNAME} ${row.Model}`);
+  return terms.every(t => rowWords.some(w => fuzzyWordMatch(t, w)) || `${row.DeviceNAME} ${row.Model}`.toLowerCase().includes(t));
+};
+
+/** Vocabulary excerpt sent to the model so it can only pick values that exist. */
+export const vocabularyContext = (vocab: SearchVocabulary, limit: number = 200) => JSON.stringify(sanitizeJson({
+  latest_delivery: toISODate(vocab.anchor),
+  suppliers: vocab.suppliers.slice(0, limit),
+  customers: vocab.customers.slice(0, limit),
+  categories: vocab.categories.slice(0, limit),
+  licenses: vocab.licenses.slice(0, limit),
+}));
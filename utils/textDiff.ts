@@ -0,0 +1,60 @@
+export interface DiffRow {
+  kind: 'same' | 'changed' | 'removed' | 'added';
+  left: string | null;
+  right: string | null;
+}
+
+// The LCS table is (n+1)·(m+1) cells; longer texts fall back to a plain line-by-line pairing
+const MAX_DIFF_LINES = 2000;
+
+/** Line diff laid out for side-by-side display: removals and additions at the same spot share a row. */
+export const diffLines = (a: string, b: string): DiffRow[] => {
+  const x = a.split('\n');
+  const y = b.split('\n');
+  const rows: DiffRow[] = [];
+
+  if (x.length > MAX_DIFF_LINES || y.length > MAX_DIFF_LINES) {
+    for (let i = 0; i < Math.max(x.length, y.length); i++) {
+      const left = x[i] ?? null;
+      const right = y[i] ?? null;
+      rows.push({ kind: left === right ? 'same' : left === null ? 'added' : right === null ? 'removed' : 'changed', left, right });
+    }
+    return rows;
+  }
+
+  const lcs = Array.from({ length: x.length + 1 }, () => new Uint32Array(y.length + 1));
+  for (let i = x.length - 1; i >= 0; i--) {
+    for (let j = y.length - 1; j >= 0; j--) {
+      lcs[i][j] = x[i] === y[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  let removed: string[] = [];
+  let added: string[] = [];
+  const flush = () => {
+    for (let k = 0; k < Math.max(removed.length, added.length); k++) {
+      const left = removed[k] ?? null;
+      const right = added[k] ?? null;
+      rows.push({ kind: left === null ? 'added' : right === null ? 'removed' : 'changed', left, right });
+    }
+    removed = [];
+    added = [];
+  };
+
+  let i = 0;
+  let j = 0;
+  while (i < x.length || j < y.length) {
+    if (i < x.length && j < y.length && x[i] === y[j]) {
+      flush();
+      rows.push({ kind: 'same', left: x[i], right: y[j] });
+      i++;
+      j++;
+    } else if (j >= y.length || (i < x.length && lcs[i + 1][j] >= lcs[i][j + 1])) {
+      removed.push(x[i++]);
+    } else {
+      added.push(y[j++]);
+    }
+  }
+  flush();
+  return rows;
+};
@@ -0,0 +1,78 @@
+import { MedFlowRow, TimeBucket, TimeSeries, TimeSeriesPoint, TimeSeriesSplit } from '../types';
+import { addDays, toISODate } from './dateUtils';
+
+const OTHER_SERIES = 'Other';
+
+export const bucketStart = (d: Date, bucket: TimeBucket): Date => {
+  if (bucket === 'month') return new Date(d.getFullYear(), d.getMonth(), 1);
+  const day = new Date(d.getFullYear(), d.getMonth(), d.getDate());
+  if (bucket === 'day') return day;
+  // ISO weeks start on Monday
+  return addDays(day, -((day.getDay() + 6) % 7));
+};
+
+export const nextBucket = (start: Date, bucket: TimeBucket): Date => {
+  if (bucket === 'month') return new Date(start.getFullYear(), start.getMonth() + 1, 1);
+  return addDays(start, bucket === 'week' ? 7 : 1);
+};
+
+export const bucketLabel = (start: Date, bucket: TimeBucket): string => {
+  if (bucket === 'day') return toISODate(start);
+  if (bucket === 'month') return toISODate(start).slice(0, 7);
+  // ISO week-year is the year of the week's Thursday
+  const thursday = addDays(start, 3);
+  const jan1 = new Date(thursday.getFullYear(), 0, 1);
+  const week = Math.floor(Math.round((thursday.getTime() - jan1.getTime()) / 86400000) / 7) + 1;
+  return `${thursday.getFullYear()}-W${String(week).padStart(2, '0')}`;
+};
+
+/**
+ * Buckets units by delivery date. Every period between the first and last delivery is present
+ * (zero-filled) so gaps stay visible. With a split, the top `maxSeries` keys by units get their
+ * own series and the rest are folded into "Other".
+ */
+export const buildTimeSeries = (
+  data: MedFlowRow[],
+  bucket: TimeBucket,
+  split: TimeSeriesSplit = 'none',
+  maxSeries: number = 6
+): TimeSeries => {
+  const dated = data.filter(r => r.parsedDate);
+  if (!dated.length) return { bucket, split, series: [], points: [] };
+
+  let series: string[] = [];
+  let seriesOf = (_r: MedFlowRow) => 'total';
+  if (split !== 'none') {
+    const totals = new Map<string, number>();
+    dated.forEach(r => totals.set(r[split], (totals.get(r[split]) || 0) + r.Number));
+    const ranked = Array.from(totals.entries()).sort((a, b) => b[1] - a[1]).map(([k]) => k);
+    const kept = new Set(ranked.slice(0, maxSeries));
+    series = ranked.slice(0, maxSeries);
+    if (ranked.length > maxSeries) series.push(OTHER_SERIES);
+    seriesOf = r => kept.has(r[split]) ? r[split] : OTHER_SERIES;
+  }
+
+  const byPeriod = new Map<number, Map<string, number>>();
+  let first = Infinity;
+  let last = -Infinity;
+  dated.forEach(r => {
+    const start = bucketStart(r.parsedDate!, bucket).getTime();
+    if (start < first) first = start;
+    if (start > last) last = start;
+    let cell = byPeriod.get(start);
+    if (!cell) byPeriod.set(start, cell = new Map());
+    const key = seriesOf(r);
+    cell.set(key, (cell.get(key) || 0) + r.Number);
+  });
+
+  const points: TimeSeriesPoint[] = [];
+  for (let d = new Date(first); d.getTime() <= last; d = nextBucket(d, bucket)) {
+    const cell = byPeriod.get(d.getTime());
+    const point: TimeSeriesPoint = { period: bucketLabel(d, bucket), start: d.getTime(), total: 0 };
+    series.forEach(s => { point[s] = cell?.get(s) || 0; });
+    cell?.forEach(v => { point.total += v; });
+    points.push(point);
+  }
+
+  return { bucket, split, series, points };
+};
@@ -0,0 +1,18 @@
+import { describe, expect, it } from 'vitest';
+import { MedFlowRow } from '../types';
+import { recallNotificationCSV, traceForward } from './traceability';
+
+const row = (CustomerID: string, Deliverdate: string, Number: number) =>
+  ({ CustomerID, Deliverdate, Number, LotNO: 'LOT-7', parsedDate: new Date(Deliverdate) } as MedFlowRow);
+
+describe('recallNotificationCSV', () => {
+  it('lists shipments by customer then date, not by units', () => {
+    const data = [row('HOSP-B', '2025-03-01', 50), row('HOSP-A', '2025-02-01', 1), row('HOSP-B', '2025-01-01', 50)];
+    const groups = traceForward(data, 'LotNO', 'lot-7');
+    expect(groups.map(g => g.key)).toEqual(['HOSP-B', 'HOSP-A']);
+    const lines = recallNotificationCSV(groups).trim().split('\r\n').slice(1);
+    expect(lines.map(l => l.split(',').slice(1, 3).join(' '))).toEqual([
+      '2025-02-01 HOSP-A', '2025-01-01 HOSP-B', '2025-03-01 HOSP-B',
+    ]);
+  });
+});
@@ -0,0 +1,83 @@
+import { MedFlowRow } from '../types';
+import { toISODate } from './dateUtils';
+import { rowsToCSV } from './dataFormats';
+
+export type TraceField = 'LotNO' | 'SerNo' | 'UDID' | 'Model';
+
+export const TRACE_FIELD_LABELS: Record<TraceField, string> = {
+  LotNO: 'Lot',
+  SerNo: 'Serial',
+  UDID: 'UDI',
+  Model: 'Model',
+};
+
+export interface TraceGroup {
+  key: string;
+  units: number;
+  firstDate: string | null;
+  lastDate: string | null;
+  rows: MedFlowRow[];
+}
+
+// Node ids match the ones buildGraph (utils/networkGraph) creates: S: supplier, C: category, U: customer
+export interface GraphHighlight {
+  nodes: Set<string>;
+  links: Set<string>;
+}
+
+const normalize = (v: string) => v.trim().toUpperCase();
+
+export const matchTrace = (data: MedFlowRow[], field: TraceField, value: string): MedFlowRow[] => {
+  const needle = normalize(value);
+  if (!needle) return [];
+  return data.filter(r => normalize(r[field]) === needle);
+};
+
+const groupRows = (rows: MedFlowRow[], keyOf: (r: MedFlowRow) => string): TraceGroup[] => {
+  const groups = new Map<string, MedFlowRow[]>();
+  rows.forEach(r => {
+    const k = keyOf(r);
+    let g = groups.get(k);
+    if (!g) groups.set(k, g = []);
+    g.push(r);
+  });
+  return Array.from(groups.entries()).map(([key, g]) => {
+    const sorted = [...g].sort((a, b) => (a.parsedDate?.getTime() ?? 0) - (b.parsedDate?.getTime() ?? 0));
+    const dated = sorted.filter(r => r.parsedDate);
+    return {
+      key,
+      units: g.reduce((s, r) => s + r.Number, 0),
+      firstDate: dated.length ? toISODate(dated[0].parsedDate!) : null,
+      lastDate: dated.length ? toISODate(dated[dated.length - 1].parsedDate!) : null,
+      rows: sorted,
+    };
+  }).sort((a, b) => b.units - a.units);
+};
+
+/** Forward trace: every customer that received the lot / serial / UDI / model, with dates and quantities. */
+export const traceForward = (data: MedFlowRow[], field: TraceField, value: string): TraceGroup[] =>
+  groupRows(matchTrace(data, field, value), r => r.CustomerID);
+
+/** Backward trace: where a customer's stock came from, grouped by supplier and lot; `scope` narrows it to one device. */
+export const traceBackward = (data: MedFlowRow[], customerId: string, scope?: (r: MedFlowRow) => boolean): TraceGroup[] =>
+  groupRows(
+    data.filter(r => r.CustomerID === customerId && (!scope || scope(r))),
+    r => `${r.SupplierID} · lot ${r.LotNO || '—'}`
+  );
+
+export const buildRecallHighlight = (rows: MedFlowRow[]): GraphHighlight => {
+  const nodes = new Set<string>();
+  const links = new Set<string>();
+  rows.forEach(r => {
+    const sup = `S:${r.SupplierID}`;
+    const cat = `C:${r.Category}`;
+    const cust = `U:${r.CustomerID}`;
+    nodes.add(sup).add(cat).add(cust);
+    links.add(`${sup}->${cat}`).add(`${cat}->${cust}`);
+  });
+  return { nodes, links };
+};
+
+/** Notification list for one recall: one line per affected shipment, ordered by customer then date. */
+export const recallNotificationCSV = (groups: TraceGroup[]): string =>
+  rowsToCSV([...groups].sort((a, b) => a.key.localeCompare(b.key)).flatMap(g => g.rows));
@@ -0,0 +1,180 @@
+import { MedFlowRow, UdiIssue, UdiIssueKind, UdiParseResult } from '../types';
+import { toISODate } from './dateUtils';
+
+const GS = '\u001D';
+
+// Application Identifiers we understand: fixed length, or null for variable length (max 20, ends at GS)
+const AI_LENGTHS: Record<string, number | null> = {
+  '01': 14, // GTIN
+  '11': 6,  // production date
+  '17': 6,  // expiry date
+  '10': null, // lot
+  '21': null, // serial
+};
+
+export const UDI_ISSUE_LABELS: Record<UdiIssueKind, string> = {
+  invalid_format: 'Unparseable UDI',
+  check_digit: 'Bad Check Digit',
+  lot_mismatch: 'Lot Mismatch',
+  serial_mismatch: 'Serial Mismatch',
+  expired_at_delivery: 'Expired at Delivery',
+};
+
+/** GS1 mod-10 check digit for the given digits (without the check digit). */
+export const gs1CheckDigit = (digits: string): number => {
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    // Weights alternate 3,1,3… starting from the rightmost digit
+    const weight = (digits.length - i) % 2 === 1 ? 3 : 1;
+    sum += Number(digits[i]) * weight;
+  }
+  return (10 - (sum % 10)) % 10;
+};
+
+/** Accepts GTIN-8/12/13/14 and validates it as a zero-padded GTIN-14. */
+export const validateGtin = (gtin: string): { valid: boolean; gtin14: string | null; error?: string } => {
+  if (!/^\d+$/.test(gtin) || ![8, 12, 13, 14].includes(gtin.length)) {
+    return { valid: false, gtin14: null, error: `GTIN must be 8, 12, 13 or 14 digits, got "${gtin}"` };
+  }
+  const gtin14 = gtin.padStart(14, '0');
+  const expected = gs1CheckDigit(gtin14.slice(0, 13));
+  if (expected !== Number(gtin14[13])) {
+    return { valid: false, gtin14, error: `GTIN check digit should be ${expected}, found ${gtin14[13]}` };
+  }
+  return { valid: true, gtin14 };
+};
+
+// YYMMDD; DD=00 means the last day of the month. GS1 century rule is simplified to 2000–2099
+const parseGs1Date = (v: string): string | null => {
+  if (!/^\d{6}$/.test(v)) return null;
+  const y = 2000 + Number(v.slice(0, 2));
+  const m = Number(v.slice(2, 4));
+  const d = Number(v.slice(4, 6));
+  if (m < 1 || m > 12) return null;
+  const date = d === 0 ? new Date(y, m, 0) : new Date(y, m - 1, d);
+  if (date.getMonth() !== m - 1) return null;
+  return toISODate(date);
+};
+
+const applyAi = (result: UdiParseResult, ai: string, value: string) => {
+  if (ai === '01') {
+    const check = validateGtin(value);
+    result.gtin = check.gtin14 ?? value;
+    // A wrong check digit is reported through checkDigitValid; errors holds structural problems only
+    result.checkDigitValid = check.gtin14 ? check.valid : null;
+    if (!check.gtin14 && check.error) result.errors.push(check.error);
+  } else if (ai === '17') {
+    result.expiry = parseGs1Date(value);
+    if (!result.expiry) result.errors.push(`Invalid expiry date "${value}"`);
+  } else if (ai === '10') {
+    result.lot = value;
+  } else if (ai === '21') {
+    result.serial = value;
+  }
+};
+
+const emptyResult = (format: UdiParseResult['format']): UdiParseResult =>
+  ({ format, gtin: null, checkDigitValid: null, lot: null, serial: null, expiry: null, errors: [] });
+
+/**
+ * Parses a UDI in any of the forms seen in the UDID column:
+ * a bare GTIN, GS1 HRI "(01)…(17)…(10)…(21)…", or a raw element string with GS separators.
+ */
+export const parseUdi = (input: string): UdiParseResult => {
+  const value = input.trim().replace(/^\][A-Za-z]\d/, ''); // symbology identifier, e.g. ]d2
+
+  if (/^\d+$/.test(value) && value.length <= 14) {
+    const result = emptyResult('gtin');
+    applyAi(result, '01', value);
+    return result;
+  }
+
+  if (value.startsWith('(')) {
+    const result = emptyResult('hri');
+    const re = /\((\d{2,4})\)([^(]*)/g;
+    let consumed = 0;
+    let m: RegExpExecArray | null;
+    while ((m = re.exec(value))) {
+      consumed += m[0].length;
+      if (!(m[1] in AI_LENGTHS)) continue; // other AIs are legal but not needed here
+      applyAi(result, m[1], m[2].trim());
+    }
+    if (consumed !== value.length) result.errors.push('Malformed HRI: text outside (AI) groups');
+    if (!result.gtin) result.errors.push('Missing (01) GTIN');
+    return result;
+  }
+
+  const result = emptyResult('element_string');
+  let i = 0;
+  while (i < value.length) {
+    if (value[i] === GS) { i++; continue; }
+    const ai = value.slice(i, i + 2);
+    if (!(ai in AI_LENGTHS)) {
+      result.errors.push(`Unsupported or invalid AI "${ai}" at position ${i}`);
+      break;
+    }
+    i += 2;
+    const len = AI_LENGTHS[ai];
+    let end: number;
+    if (len !== null) {
+      end = i + len;
+    } else {
+      const gs = value.indexOf(GS, i);
+      end = gs === -1 ? value.length : gs;
+      if (end - i > 20) result.errors.push(`AI (${ai}) longer than 20 characters`);
+    }
+    applyAi(result, ai, value.slice(i, end));
+    i = end;
+  }
+  if (!result.gtin) result.errors.push('Missing (01) GTIN');
+  return result;
+};
+
+const normalizeId = (v: string) => v.trim().replace(/^0+(?=.)/, '').toUpperCase();
+
+/** Validates a row's UDID and cross-checks any lot/serial/expiry it encodes against the LotNO/SerNo/Deliverdate columns. */
+export const checkRowUdi = (row: MedFlowRow, parsed: UdiParseResult = parseUdi(row.UDID)): UdiIssue[] => {
+  if (!row.UDID) return [];
+  const issues: UdiIssue[] = [];
+
+  if (parsed.checkDigitValid === false && parsed.gtin) {
+    const expected = gs1CheckDigit(parsed.gtin.slice(0, 13));
+    issues.push({ kind: 'check_digit', message: `GTIN ${parsed.gtin} check digit should be ${expected}`, row });
+  }
+  if (parsed.errors.length) issues.push({ kind: 'invalid_format', message: parsed.errors.join('; '), row });
+
+  if (parsed.lot && row.LotNO && normalizeId(parsed.lot) !== normalizeId(row.LotNO)) {
+    issues.push({ kind: 'lot_mismatch', message: `UDI lot ${parsed.lot} ≠ LotNO ${row.LotNO}`, row });
+  }
+  if (parsed.serial && row.SerNo && normalizeId(parsed.serial) !== normalizeId(row.SerNo)) {
+    issues.push({ kind: 'serial_mismatch', message: `UDI serial ${parsed.serial} ≠ SerNo ${row.SerNo}`, row });
+  }
+  if (parsed.expiry && row.parsedDate && parsed.expiry < toISODate(row.parsedDate)) {
+    issues.push({ kind: 'expired_at_delivery', message: `Expired ${parsed.expiry}, delivered ${toISODate(row.parsedDate)}`, row });
+  }
+  return issues;
+};
+
+export interface UdiReport {
+  checked: number;
+  missing: number;
+  valid: number;
+  issues: UdiIssue[];
+}
+
+export const buildUdiReport = (data: MedFlowRow[]): UdiReport => {
+  // Many rows share a UDID; cache the parse per distinct value
+  const cache = new Map<string, UdiParseResult>();
+  let missing = 0;
+  let valid = 0;
+  const issues: UdiIssue[] = [];
+  data.forEach(r => {
+    if (!r.UDID) { missing++; return; }
+    let parsed = cache.get(r.UDID);
+    if (!parsed) cache.set(r.UDID, parsed = parseUdi(r.UDID));
+    const rowIssues = checkRowUdi(r, parsed);
+    if (!rowIssues.length) valid++;
+    issues.push(...rowIssues);
+  });
+  return { checked: data.length - missing, missing, valid, issues };
+};
@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vitest';
+import { measureCall, parsePriceKey, priceKey } from './usage';
+
+const request = { prompt: 'x'.repeat(4000), temperature: 0, maxTokens: 100 };
+const result = { text: 'ok', tokens: { prompt: 1_000_000, response: 1_000_000 } };
+
+describe('measureCall', () => {
+  it('prices Gemini models by their list price', () => {
+    expect(measureCall('gemini', 'gemini-3-flash-preview', request, result, 10).cost).toBe(3.5);
+  });
+
+  it('does not charge a local server running a model under a Gemini name', () => {
+    const usage = measureCall('openai_compatible', 'gemini-3-flash-preview', request, result, 10);
+    expect(usage.cost).toBe(0);
+    expect(usage.unpriced).toBe(true);
+  });
+
+  it('never charges or flags the mock provider', () => {
+    const usage = measureCall('mock', 'gemini-3-flash-preview', request, result, 10);
+    expect(usage.cost).toBe(0);
+    expect(usage.unpriced).toBeUndefined();
+  });
+
+  it('marks partial calls and estimates their tokens from the streamed text', () => {
+    const usage = measureCall('gemini', 'gemini-3-flash-preview', request, { text: 'x'.repeat(400) }, 10, true);
+    expect(usage).toMatchObject({ partial: true, estimated: true, prompt_tokens: 1000, response_tokens: 100 });
+  });
+});
+
+describe('price keys', () => {
+  it('round-trip provider and model, including model names with slashes', () => {
+    expect(parsePriceKey(priceKey('openai_compatible', 'meta-llama/Llama-3.1-8B'))).toEqual({ provider: 'openai_compatible', model: 'meta-llama/Llama-3.1-8B' });
+  });
+
+  it('read bare model names from older tables as Gemini', () => {
+    expect(parsePriceKey('gemini-3-pro-preview')).toEqual({ provider: 'gemini', model: 'gemini-3-pro-preview' });
+  });
+});
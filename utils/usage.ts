@@ -0,0 +1,206 @@
+import { CallUsage, GenerateRequest, GenerateResult, PipelineRun, ProviderId, UsageRecord, UsageSettings, UsageSource } from '../types';
+import { clearUsageRecords, loadUsageRecords, saveUsageRecord } from './runStore';
+import { toISODate } from './dateUtils';
+import { PROVIDER_IDS } from './agentSpecs';
+
+const SETTINGS_KEY = 'medflow.usage';
+
+// A model name alone is ambiguous: a local server may run a model under a Gemini name at no cost
+export const priceKey = (provider: ProviderId, model: string) => `${provider}/${model}`;
+
+/** Splits a price table key; a bare model name (tables saved before prices were per provider) counts as Gemini. */
+export const parsePriceKey = (key: string): { provider: ProviderId; model: string } => {
+  const slash = key.indexOf('/');
+  const provider = key.slice(0, Math.max(0, slash)) as ProviderId;
+  return PROVIDER_IDS.includes(provider) ? { provider, model: key.slice(slash + 1) } : { provider: 'gemini', model: key };
+};
+
+// List prices in USD per million tokens; thinking tokens are billed as output
+export const DEFAULT_USAGE_SETTINGS: UsageSettings = {
+  prices: {
+    [priceKey('gemini', 'gemini-3-flash-preview')]: { input: 0.5, output: 3 },
+    [priceKey('gemini', 'gemini-3-pro-preview')]: { input: 2, output: 12 },
+  },
+  budget_usd: null,
+  budget_period: 'month',
+};
+
+export const USAGE_SOURCE_LABELS: Record<UsageSource, string> = {
+  agent: 'Agent',
+  insight: 'Insight Flash',
+  prediction: 'Pulse Prediction',
+  search: 'Semantic search',
+  connection_test: 'Connection test',
+};
+
+const loadSettings = (): UsageSettings => {
+  try {
+    const stored: Partial<UsageSettings> = JSON.parse(localStorage.getItem(SETTINGS_KEY) || '{}');
+    const prices = stored.prices && Object.fromEntries(Object.entries(stored.prices).map(([key, price]) => {
+      const { provider, model } = parsePriceKey(key);
+      return [priceKey(provider, model), price];
+    }));
+    return { ...DEFAULT_USAGE_SETTINGS, ...stored, ...(prices ? { prices } : {}) };
+  } catch {
+    return DEFAULT_USAGE_SETTINGS;
+  }
+};
+
+let settings = loadSettings();
+
+export const getUsageSettings = () => settings;
+
+export const setUsageSettings = (next: UsageSettings) => {
+  settings = next;
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(next));
+};
+
+// Rough rule of thumb (~4 characters per token) for servers that report no usage
+export const estimateTokens = (text: string) => Math.ceil(text.length / 4);
+
+/**
+ * Token counts, latency and cost of one call, priced by provider and model; the mock provider is never flagged
+ * as unpriced. `partial` marks a call that failed or was stopped after the prompt went out.
+ */
+export const measureCall = (
+  provider: ProviderId,
+  model: string,
+  request: GenerateRequest,
+  result: GenerateResult,
+  latencyMs: number,
+  partial: boolean = false
+): CallUsage => {
+  const prompt_tokens = result.tokens?.prompt ?? estimateTokens(`${request.systemInstruction ?? ''}${request.prompt}`);
+  const response_tokens = result.tokens?.response ?? estimateTokens(result.text);
+  const price = settings.prices[priceKey(provider, model)];
+  const unpriced = !price && provider !== 'mock';
+  return {
+    provider,
+    model,
+    prompt_tokens,
+    response_tokens,
+    estimated: !result.tokens,
+    latency_ms: Math.round(latencyMs),
+    cost: price ? (prompt_tokens * price.input + response_tokens * price.output) / 1e6 : 0,
+    ...(unpriced ? { unpriced } : {}),
+    ...(partial ? { partial } : {}),
+  };
+};
+
+export interface UsageTotals {
+  calls: number;
+  prompt_tokens: number;
+  response_tokens: number;
+  cost: number;
+  latency_ms: number;
+  estimated: number;
+  unpriced: number;
+}
+
+export const sumUsage = (calls: CallUsage[]): UsageTotals => calls.reduce<UsageTotals>((t, c) => ({
+  calls: t.calls + 1,
+  prompt_tokens: t.prompt_tokens + c.prompt_tokens,
+  response_tokens: t.response_tokens + c.response_tokens,
+  cost: t.cost + c.cost,
+  latency_ms: t.latency_ms + c.latency_ms,
+  estimated: t.estimated + (c.estimated ? 1 : 0),
+  unpriced: t.unpriced + (c.unpriced ? 1 : 0),
+}), { calls: 0, prompt_tokens: 0, response_tokens: 0, cost: 0, latency_ms: 0, estimated: 0, unpriced: 0 });
+
+/** Every call of a pipeline run, retries and repair prompts included. */
+export const runUsage = (run: PipelineRun) => sumUsage(Object.values(run.steps).flatMap(s => s.usage ?? []));
+
+export const describeTotals = (t: UsageTotals) =>
+  `${t.calls} call${t.calls === 1 ? '' : 's'} · ${t.estimated ? '~' : ''}${(t.prompt_tokens + t.response_tokens).toLocaleString()} tokens · ${(t.latency_ms / 1000).toFixed(1)}s · ${formatCost(t.cost)}${t.unpriced ? ' (partly unpriced)' : ''}`;
+
+const groupTotals = (records: UsageRecord[], keyOf: (r: UsageRecord) => string) => {
+  const groups = new Map<string, UsageRecord[]>();
+  records.forEach(r => {
+    const k = keyOf(r);
+    let g = groups.get(k);
+    if (!g) groups.set(k, g = []);
+    g.push(r);
+  });
+  return Array.from(groups.entries()).map(([key, g]) => ({ key, ...sumUsage(g) }));
+};
+
+/** Per calendar day (local time), oldest first. */
+export const usageByDay = (records: UsageRecord[]) =>
+  groupTotals(records, r => toISODate(new Date(r.timestamp))).sort((a, b) => a.key.localeCompare(b.key));
+
+/** Per agent id; calls outside the pipeline are grouped under their source. Most expensive first. */
+export const usageByAgent = (records: UsageRecord[]) =>
+  groupTotals(records, r => r.agentId ?? USAGE_SOURCE_LABELS[r.source]).sort((a, b) => b.cost - a.cost || b.calls - a.calls);
+
+const periodStart = (period: UsageSettings['budget_period'], now: Date) =>
+  period === 'day'
+    ? new Date(now.getFullYear(), now.getMonth(), now.getDate()).getTime()
+    : new Date(now.getFullYear(), now.getMonth(), 1).getTime();
+
+export interface BudgetStatus {
+  cap: number;
+  spent: number;
+  exceeded: boolean;
+}
+
+/** Spend in the current day or month against the cap; null when no cap is set. */
+export const budgetStatus = (records: UsageRecord[], current: UsageSettings = settings, now: Date = new Date()): BudgetStatus | null => {
+  if (current.budget_usd === null) return null;
+  const since = periodStart(current.budget_period, now);
+  const spent = records.reduce((s, r) => r.timestamp >= since ? s + r.cost : s, 0);
+  return { cap: current.budget_usd, spent, exceeded: spent >= current.budget_usd };
+};
+
+export const formatCost = (usd: number) => usd === 0 ? '$0' : usd < 0.01 ? `$${usd.toFixed(4)}` : `$${usd.toFixed(2)}`;
+
+export const formatUsage = (usage: CallUsage) =>
+  `${usage.model} · ${usage.estimated ? '~' : ''}${(usage.prompt_tokens + usage.response_tokens).toLocaleString()} tokens · ${(usage.latency_ms / 1000).toFixed(1)}s · ${usage.unpriced ? 'unpriced' : formatCost(usage.cost)}${usage.partial ? ' · partial' : ''}`;
+
+// Session copy of the persisted ledger, so the budget check before each call stays synchronous
+let ledger: UsageRecord[] = [];
+const listeners = new Set<(records: UsageRecord[]) => void>();
+const notify = () => listeners.forEach(l => l(ledger));
+
+export const getUsageLedger = () => ledger;
+
+export const subscribeUsage = (listener: (records: UsageRecord[]) => void) => {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+};
+
+export const loadUsageLedger = async () => {
+  const stored = await loadUsageRecords();
+  // Calls made while the store was loading are kept
+  ledger = [...stored, ...ledger.filter(r => !stored.some(s => s.id === r.id))];
+  notify();
+  return ledger;
+};
+
+export const recordUsage = (usage: CallUsage, source: UsageSource, agentId?: string, runId?: string): UsageRecord => {
+  const record: UsageRecord = {
+    ...usage,
+    id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+    timestamp: Date.now(),
+    source,
+    ...(agentId ? { agentId } : {}),
+    ...(runId ? { runId } : {}),
+  };
+  ledger = [...ledger, record];
+  notify();
+  saveUsageRecord(record).catch(e => console.error('Failed to save usage record', e));
+  return record;
+};
+
+export const clearUsageLedger = async () => {
+  await clearUsageRecords();
+  ledger = [];
+  notify();
+};
+
+/** Throws once the budget cap for the current period is used up. */
+export const assertWithinBudget = () => {
+  const status = budgetStatus(ledger);
+  if (status?.exceeded) {
+    throw new Error(`Budget cap of ${formatCost(status.cap)} per ${settings.budget_period} reached (${formatCost(status.spent)} spent). Raise it on the Usage tab.`);
+  }
+};